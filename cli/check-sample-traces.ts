@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+import fs from "node:fs";
+import path from "node:path";
+
+import { normalizeTrace } from "@shared/adapters/registry";
+import { analyzeTrace } from "@shared/analysis/trace-analyzer";
+
+/**
+ * Analyzes each trace in TEST_TRACES.md and compares its risk level with the
+ * "Expected risk" listed under it, so detector changes that raise false
+ * positives on plain traces show up. Exits with 1 on any mismatch.
+ */
+
+const SAMPLES_FILE = path.resolve(import.meta.dirname, "..", "TEST_TRACES.md");
+
+// ## Trace N: Title, then the expected risk, then the fenced JSON
+const SAMPLE_PATTERN = /^## (Trace \d+:[^\n]*)\nExpected risk: \*\*(low|medium|high)\*\*\n+```json\n([\s\S]*?)```/gm;
+
+function main(): number {
+  const markdown = fs.readFileSync(SAMPLES_FILE, "utf8");
+  const samples = Array.from(markdown.matchAll(SAMPLE_PATTERN));
+  if (samples.length === 0) {
+    console.error(`check-sample-traces: no samples with an expected risk in ${SAMPLES_FILE}`);
+    return 1;
+  }
+
+  let failures = 0;
+  for (const [, title, expected, json] of samples) {
+    const analyzed = analyzeTrace(normalizeTrace(json));
+    const actual = analyzed.riskLevel || "low";
+    if (actual === expected) {
+      console.log(`ok    ${title}: ${actual}`);
+      continue;
+    }
+    failures++;
+    const issues = (analyzed.issues || []).map((issue) => issue.title).join("; ");
+    console.log(`FAIL  ${title}: expected ${expected}, got ${actual}${issues ? ` (${issues})` : ""}`);
+  }
+
+  console.log(`\n${samples.length - failures}/${samples.length} sample traces at their expected risk`);
+  return failures > 0 ? 1 : 0;
+}
+
+process.exitCode = main();
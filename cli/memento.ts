@@ -0,0 +1,269 @@
+#!/usr/bin/env node
+import fs from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+
+import { parseTrace } from "@shared/adapters/registry";
+import { analyzeTrace, listDetectors, registerDetector, type DetectorDefinition } from "@shared/analysis/trace-analyzer";
+import { parseAnalyzerConfigText, type AnalyzerConfig } from "@shared/analysis/rules";
+import { ruleIssueType } from "@shared/analysis/rule-dsl";
+import { createRedactor } from "@shared/analysis/redaction";
+import { formatCost } from "@shared/analysis/cost";
+import { type CostSummary, type IssueType, type RiskLevel, type TraceIssue } from "@shared/models";
+
+const USAGE = `Usage: memento analyze <trace.json | -> [options]
+
+Options:
+  --format <json|text>   Output format (default: text)
+  --fail-on <threshold>  Exit with code 1 when the risk level is at or above
+                         low|medium|high, or when any of a comma-separated
+                         list of issue types is found
+  --adapter <id>         Skip format detection and parse with this adapter
+  --rules <file>         JSON or YAML analyzer config (patterns, commit tools,
+                         thresholds, model pricing, disabled detectors,
+                         trace rules)
+  --detectors <module>   Module whose default export is an array of detector
+                         definitions to register (repeatable)
+  --redact               Replace secrets and personal data with placeholders
+                         (<EMAIL_1>, <SECRET_1>, ...) before analysis
+  -h, --help             Show this help
+
+Exit codes: 0 passed, 1 threshold met, 2 usage or parse error`;
+
+const RISK_ORDER: RiskLevel[] = ["low", "medium", "high"];
+
+type FailOn =
+  | { kind: "risk"; level: RiskLevel }
+  | { kind: "issues"; types: IssueType[] };
+
+class UsageError extends Error {}
+
+function parseFailOn(value: string, rules?: AnalyzerConfig): FailOn {
+  if ((RISK_ORDER as string[]).includes(value)) {
+    return { kind: "risk", level: value as RiskLevel };
+  }
+
+  const known = [
+    ...listDetectors().map((detector) => detector.type),
+    ...(rules?.traceRules || []).map((rule) => ruleIssueType(rule.id)),
+  ];
+  const types = value.split(",").map((type) => type.trim()).filter(Boolean);
+  const unknown = types.filter((type) => !known.includes(type));
+  if (types.length === 0 || unknown.length > 0) {
+    throw new UsageError(
+      `Invalid --fail-on "${value}". Use low, medium, high, or issue types: ${known.join(", ")}`,
+    );
+  }
+  return { kind: "issues", types: types as IssueType[] };
+}
+
+function thresholdMet(failOn: FailOn, riskLevel: RiskLevel, issues: TraceIssue[]): boolean {
+  if (failOn.kind === "risk") {
+    return RISK_ORDER.indexOf(riskLevel) >= RISK_ORDER.indexOf(failOn.level);
+  }
+  return issues.some((issue) => failOn.types.includes(issue.type));
+}
+
+function readInput(path: string): string {
+  return fs.readFileSync(path === "-" ? 0 : path, "utf8");
+}
+
+function redactInput(raw: string): string {
+  const redactor = createRedactor();
+  try {
+    return JSON.stringify(redactor.redact(JSON.parse(raw)));
+  } catch {
+    // JSONL or concatenated documents; redact the text as it is
+    return redactor.redact(raw);
+  }
+}
+
+function loadRules(file: string): AnalyzerConfig {
+  let text: string;
+  try {
+    text = readInput(file);
+  } catch (error) {
+    throw new UsageError(`Cannot load rules from ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const { config, error } = parseAnalyzerConfigText(text);
+  if (!config) {
+    throw new UsageError(`Invalid rules in ${file}: ${error}`);
+  }
+  return config;
+}
+
+/**
+ * Registers the detectors exported by a plugin module. Plugins export plain
+ * definitions rather than calling registerDetector themselves, since a
+ * bundled CLI does not share its module instance with them.
+ */
+async function loadDetectors(modulePath: string): Promise<void> {
+  let definitions: unknown;
+  try {
+    const mod = await import(pathToFileURL(path.resolve(modulePath)).href);
+    definitions = mod.default ?? mod.detectors;
+  } catch (error) {
+    throw new UsageError(`Cannot load detectors from ${modulePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const list = Array.isArray(definitions) ? definitions : [definitions];
+  for (const definition of list as DetectorDefinition[]) {
+    if (!definition || typeof definition.type !== "string" || typeof definition.detect !== "function") {
+      throw new UsageError(`${modulePath} must export detector definitions with a type and a detect function`);
+    }
+    registerDetector({
+      ...definition,
+      label: definition.label ?? definition.type,
+      suggestion: definition.suggestion ?? "",
+      priority: definition.priority ?? 100,
+      risk: definition.risk ?? "low",
+    });
+  }
+}
+
+function formatText(
+  file: string,
+  riskLevel: RiskLevel,
+  riskExplanation: string | undefined,
+  issues: TraceIssue[],
+  nodeCount: number,
+  warnings: string[],
+  cost?: CostSummary,
+): string {
+  const lines = [
+    `${file}: ${nodeCount} nodes`,
+    `Risk: ${riskLevel.toUpperCase()}${riskExplanation ? ` - ${riskExplanation}` : ""}`,
+  ];
+
+  if (cost) {
+    const topTools = cost.byTool.slice(0, 3).map((branch) => `${branch.tool} ${formatCost(branch.costUsd)}`);
+    lines.push(`Cost: ${formatCost(cost.totalUsd)}${topTools.length > 0 ? ` (${topTools.join(", ")})` : ""}`);
+    if (cost.unpricedModels.length > 0) {
+      lines.push(`warning: no price for ${cost.unpricedModels.join(", ")}; their steps are not counted`);
+    }
+  }
+
+  for (const warning of warnings) {
+    lines.push(`warning: ${warning}`);
+  }
+
+  lines.push("");
+  if (issues.length === 0) {
+    lines.push("No issues found.");
+  } else {
+    lines.push(`${issues.length} issue${issues.length === 1 ? "" : "s"}:`);
+    for (const issue of issues) {
+      lines.push(`  [${issue.severity}] ${issue.type}: ${issue.title}`);
+      lines.push(`    ${issue.description}`);
+      for (const evidence of issue.evidence || []) {
+        lines.push(`    - ${evidence.claim} in "${evidence.sentence}"`);
+      }
+      lines.push(`    nodes: ${issue.nodeIds.join(", ")}`);
+      lines.push(`    suggestion: ${issue.suggestion}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+async function analyze(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: { type: "string", default: "text" },
+      "fail-on": { type: "string" },
+      adapter: { type: "string" },
+      rules: { type: "string" },
+      detectors: { type: "string", multiple: true },
+      redact: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length !== 1) {
+    throw new UsageError("Expected exactly one trace file (use - to read stdin)");
+  }
+  if (values.format !== "json" && values.format !== "text") {
+    throw new UsageError(`Invalid --format "${values.format}". Use json or text`);
+  }
+  for (const modulePath of values.detectors || []) {
+    await loadDetectors(modulePath);
+  }
+  const rules = values.rules ? loadRules(values.rules) : undefined;
+  const failOn = values["fail-on"] ? parseFailOn(values["fail-on"], rules) : undefined;
+
+  const [file] = positionals;
+  let raw: string;
+  try {
+    raw = readInput(file);
+  } catch (error) {
+    console.error(`memento: cannot read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    return 2;
+  }
+
+  const result = parseTrace(values.redact ? redactInput(raw) : raw, { adapterId: values.adapter });
+  if (!result.success || !result.trace) {
+    console.error(`memento: failed to parse ${file}: ${result.error}`);
+    return 2;
+  }
+
+  const analyzed = analyzeTrace(result.trace, rules);
+  const riskLevel = analyzed.riskLevel || "low";
+  const issues = analyzed.issues || [];
+  const warnings = result.warnings || [];
+  const failed = failOn ? thresholdMet(failOn, riskLevel, issues) : false;
+
+  if (values.format === "json") {
+    console.log(JSON.stringify({
+      file,
+      adapter: result.adapterId,
+      nodeCount: analyzed.nodes.length,
+      riskLevel,
+      riskExplanation: analyzed.riskExplanation,
+      issueSummary: analyzed.issueSummary,
+      issues,
+      stats: analyzed.stats,
+      warnings,
+      failed,
+    }, null, 2));
+  } else {
+    console.log(formatText(file, riskLevel, analyzed.riskExplanation, issues, analyzed.nodes.length, warnings, analyzed.stats?.cost));
+    if (failed) {
+      console.log(`\nFailed: --fail-on ${values["fail-on"]} threshold met`);
+    }
+  }
+
+  return failed ? 1 : 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+
+  try {
+    if (command === "analyze") {
+      return await analyze(rest);
+    }
+    if (!command || command === "help" || command === "--help" || command === "-h") {
+      console.log(USAGE);
+      return command ? 0 : 2;
+    }
+    throw new UsageError(`Unknown command "${command}"`);
+  } catch (error) {
+    // parseArgs reports unknown flags as TypeErrors with an ERR_PARSE_ARGS_* code
+    const isArgError = error instanceof UsageError || (error as NodeJS.ErrnoException)?.code?.startsWith("ERR_PARSE_ARGS");
+    if (!isArgError) throw error;
+    console.error(`memento: ${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
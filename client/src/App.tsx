@@ -4,6 +4,7 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/lib/theme-provider";
+import { AnalyzerConfigProvider } from "@/lib/analyzer-config";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import Home from "@/pages/Home";
 import NotFound from "@/pages/not-found";
@@ -12,6 +13,8 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/trace/:id" component={Home} />
+      <Route path="/runs/:runId" component={Home} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -22,10 +25,12 @@ function App() {
     <ErrorBoundary>
       <QueryClientProvider client={queryClient}>
         <ThemeProvider defaultTheme="light">
-          <TooltipProvider>
-            <Toaster />
-            <Router />
-          </TooltipProvider>
+          <AnalyzerConfigProvider>
+            <TooltipProvider>
+              <Toaster />
+              <Router />
+            </TooltipProvider>
+          </AnalyzerConfigProvider>
         </ThemeProvider>
       </QueryClientProvider>
     </ErrorBoundary>
@@ -0,0 +1,493 @@
+import { useRef, useState } from 'react';
+import { SlidersHorizontal, Save, RotateCcw, Upload } from 'lucide-react';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/components/ui/accordion';
+import { useAnalyzerConfig } from '@/lib/analyzer-config';
+import { useToast } from '@/hooks/use-toast';
+import { IssueType } from '@shared/models';
+import {
+  AnalyzerConfig,
+  DEFAULT_ERROR_PATTERNS,
+  DEFAULT_EMPTY_RESULT_PATTERNS,
+  DEFAULT_SPECULATIVE_PATTERNS,
+  DEFAULT_INJECTION_PATTERNS,
+  DEFAULT_COMMIT_TOOLS,
+  DEFAULT_LOOP_SIMILARITY,
+  parseAnalyzerConfig,
+  parseAnalyzerConfigText,
+} from '@shared/analysis/rules';
+import { listDetectors } from '@shared/analysis/trace-analyzer';
+import { DEFAULT_CACHE_READ_RATE, DEFAULT_PRICING, ModelPrice } from '@shared/analysis/cost';
+import { SLOW_THRESHOLD_MS, HEAVY_TOKEN_THRESHOLD } from '@shared/adapters/generic';
+
+type ListKey = 'errorPatterns' | 'emptyResultPatterns' | 'speculativePatterns' | 'injectionPatterns' | 'commitTools';
+
+interface ListConfig {
+  key: ListKey;
+  label: string;
+  hint: string;
+  placeholder: string;
+  defaults: string[];
+}
+
+const LIST_CONFIGS: ListConfig[] = [
+  {
+    key: 'commitTools',
+    label: 'Commit Tools',
+    hint: 'Tool names containing one of these are treated as irreversible (payments, writes, sends).',
+    placeholder: 'transfer_funds\nissue_refund',
+    defaults: DEFAULT_COMMIT_TOOLS,
+  },
+  {
+    key: 'errorPatterns',
+    label: 'Error Patterns',
+    hint: 'Regular expressions (case-insensitive) that mark an observation as an error.',
+    placeholder: '\\berr_[a-z]+\\b',
+    defaults: DEFAULT_ERROR_PATTERNS.map(p => p.source),
+  },
+  {
+    key: 'emptyResultPatterns',
+    label: 'Empty Result Patterns',
+    hint: 'Regular expressions that mark an observation as an empty result.',
+    placeholder: '\\bno\\s+accounts?\\b',
+    defaults: DEFAULT_EMPTY_RESULT_PATTERNS.map(p => p.source),
+  },
+  {
+    key: 'speculativePatterns',
+    label: 'Speculative Patterns',
+    hint: 'Regular expressions that mark a thought or output as guessing.',
+    placeholder: '\\bpresumably\\b',
+    defaults: DEFAULT_SPECULATIVE_PATTERNS.map(p => p.source),
+  },
+  {
+    key: 'injectionPatterns',
+    label: 'Injection Patterns',
+    hint: 'Regular expressions that mark text in a tool result as instructions aimed at the agent.',
+    placeholder: '\\bact\\s+as\\s+admin\\b',
+    defaults: DEFAULT_INJECTION_PATTERNS.map(p => p.source),
+  },
+];
+
+interface Draft {
+  removed: Record<ListKey, string[]>;
+  added: Record<ListKey, string>;
+  slowThresholdMs: string;
+  heavyTokenThreshold: string;
+  similarLoops: boolean;
+  loopSimilarity: string;
+  disabledDetectors: IssueType[];
+  pricing: string;
+  traceRules: string;
+}
+
+const TRACE_RULES_PLACEHOLDER = `- id: refund-needs-lookup
+  title: Refund without order lookup
+  severity: error
+  match: { type: action, tool: "refund_*" }
+  assert:
+    precededBy:
+      match: { type: observation, tool: lookup_order }
+      within: 3`;
+
+const PRICING_PLACEHOLDER = `my-finetune-* 3 12
+gpt-4o* 2.5 10`;
+
+// One "pattern input output [cacheRead cacheWrite]" line per model, prices in USD per million tokens
+function parsePricing(text: string): ModelPrice[] {
+  return text.split('\n').map(line => line.trim()).filter(Boolean).map(line => {
+    const [pattern, input, output, cacheRead, cacheWrite] = line.split(/\s+/);
+    return {
+      pattern,
+      inputPerMillion: Number(input),
+      outputPerMillion: Number(output),
+      ...(cacheRead !== undefined && { cacheReadPerMillion: Number(cacheRead) }),
+      ...(cacheWrite !== undefined && { cacheWritePerMillion: Number(cacheWrite) }),
+    };
+  });
+}
+
+function formatPrice(price: ModelPrice): string {
+  const columns = [price.pattern, price.inputPerMillion, price.outputPerMillion];
+  if (price.cacheReadPerMillion !== undefined || price.cacheWritePerMillion !== undefined) {
+    columns.push(price.cacheReadPerMillion ?? price.inputPerMillion * DEFAULT_CACHE_READ_RATE);
+  }
+  if (price.cacheWritePerMillion !== undefined) columns.push(price.cacheWritePerMillion);
+  return columns.join(' ');
+}
+
+function toDraft(config: AnalyzerConfig): Draft {
+  const removed = {} as Record<ListKey, string[]>;
+  const added = {} as Record<ListKey, string>;
+  for (const { key } of LIST_CONFIGS) {
+    removed[key] = config[key]?.remove || [];
+    added[key] = (config[key]?.add || []).join('\n');
+  }
+  return {
+    removed,
+    added,
+    slowThresholdMs: config.slowThresholdMs !== undefined ? String(config.slowThresholdMs) : '',
+    heavyTokenThreshold: config.heavyTokenThreshold !== undefined ? String(config.heavyTokenThreshold) : '',
+    similarLoops: config.loopDetection !== 'exact',
+    loopSimilarity: config.loopSimilarity !== undefined ? String(config.loopSimilarity) : '',
+    disabledDetectors: config.disabledDetectors || [],
+    pricing: (config.pricing || []).map(formatPrice).join('\n'),
+    traceRules: config.traceRules && config.traceRules.length > 0 ? stringifyYaml(config.traceRules) : '',
+  };
+}
+
+function toConfig(draft: Draft): unknown {
+  const config: Record<string, unknown> = {};
+  for (const { key } of LIST_CONFIGS) {
+    const add = draft.added[key].split('\n').map(line => line.trim()).filter(Boolean);
+    const remove = draft.removed[key];
+    if (add.length > 0 || remove.length > 0) {
+      config[key] = {
+        ...(add.length > 0 ? { add } : {}),
+        ...(remove.length > 0 ? { remove } : {}),
+      };
+    }
+  }
+  if (draft.slowThresholdMs.trim()) config.slowThresholdMs = Number(draft.slowThresholdMs);
+  if (draft.heavyTokenThreshold.trim()) config.heavyTokenThreshold = Number(draft.heavyTokenThreshold);
+  if (!draft.similarLoops) config.loopDetection = 'exact';
+  if (draft.similarLoops && draft.loopSimilarity.trim()) config.loopSimilarity = Number(draft.loopSimilarity);
+  if (draft.disabledDetectors.length > 0) config.disabledDetectors = draft.disabledDetectors;
+  if (draft.pricing.trim()) config.pricing = parsePricing(draft.pricing);
+  // Throws on a YAML syntax error; the caller reports it
+  if (draft.traceRules.trim()) config.traceRules = parseYaml(draft.traceRules);
+  return config;
+}
+
+export function AnalyzerSettings() {
+  const { config, setConfig, resetConfig } = useAnalyzerConfig();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Draft>(() => toDraft(config));
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const isCustomized = Object.keys(config).length > 0;
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setDraft(toDraft(config));
+      setError(null);
+    }
+    setOpen(next);
+  };
+
+  const toggleDefault = (key: ListKey, value: string) => {
+    setDraft(prev => {
+      const removed = prev.removed[key];
+      return {
+        ...prev,
+        removed: {
+          ...prev.removed,
+          [key]: removed.includes(value) ? removed.filter(v => v !== value) : [...removed, value],
+        },
+      };
+    });
+  };
+
+  const toggleDetector = (type: IssueType, enabled: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      disabledDetectors: enabled
+        ? prev.disabledDetectors.filter(t => t !== type)
+        : [...prev.disabledDetectors, type],
+    }));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseAnalyzerConfigText(await file.text());
+    if (!result.config) {
+      setError(`${file.name}: ${result.error || 'Invalid settings'}`);
+      return;
+    }
+    setDraft(toDraft(result.config));
+    setError(null);
+  };
+
+  const handleSave = () => {
+    let input: unknown;
+    try {
+      input = toConfig(draft);
+    } catch (e) {
+      setError(`Trace rules: ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+
+    const result = parseAnalyzerConfig(input);
+    if (!result.config) {
+      setError(result.error || 'Invalid settings');
+      return;
+    }
+
+    setConfig(result.config);
+    toast({
+      title: 'Analyzer settings saved',
+      description: 'The current trace has been re-analyzed with your rules.',
+    });
+    setOpen(false);
+  };
+
+  const handleReset = () => {
+    resetConfig();
+    setDraft(toDraft({}));
+    setError(null);
+    toast({
+      title: 'Analyzer settings reset',
+      description: 'The default rules are in use again.',
+    });
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="icon" className="relative" data-testid="button-analyzer-settings">
+          <SlidersHorizontal className="h-4 w-4" />
+          {isCustomized && (
+            <span className="absolute top-1 right-1 h-2 w-2 rounded-full bg-primary" />
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-lg flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Analyzer Rules</SheetTitle>
+          <SheetDescription>
+            Tune what the detectors flag. Settings are saved in this browser and sent along when a trace is shared.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          <div className="space-y-6 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="slow-threshold">Slow step (ms)</Label>
+                <Input
+                  id="slow-threshold"
+                  type="number"
+                  min={0}
+                  value={draft.slowThresholdMs}
+                  placeholder={String(SLOW_THRESHOLD_MS)}
+                  onChange={(e) => setDraft(prev => ({ ...prev, slowThresholdMs: e.target.value }))}
+                  data-testid="input-slow-threshold"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="heavy-threshold">Token-heavy step</Label>
+                <Input
+                  id="heavy-threshold"
+                  type="number"
+                  min={0}
+                  value={draft.heavyTokenThreshold}
+                  placeholder={String(HEAVY_TOKEN_THRESHOLD)}
+                  onChange={(e) => setDraft(prev => ({ ...prev, heavyTokenThreshold: e.target.value }))}
+                  data-testid="input-heavy-threshold"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="similar-loops">Match paraphrased loops</Label>
+                <Switch
+                  id="similar-loops"
+                  checked={draft.similarLoops}
+                  onCheckedChange={(checked) => setDraft(prev => ({ ...prev, similarLoops: checked }))}
+                  data-testid="switch-similar-loops"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="loop-similarity">Loop similarity (0-1)</Label>
+                <Input
+                  id="loop-similarity"
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={draft.loopSimilarity}
+                  placeholder={String(DEFAULT_LOOP_SIMILARITY)}
+                  disabled={!draft.similarLoops}
+                  onChange={(e) => setDraft(prev => ({ ...prev, loopSimilarity: e.target.value }))}
+                  data-testid="input-loop-similarity"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium">Detectors</h4>
+              {listDetectors().map(({ type, label }) => (
+                <div key={type} className="flex items-center justify-between">
+                  <Label htmlFor={`detector-${type}`} className="font-normal">
+                    {label}
+                  </Label>
+                  <Switch
+                    id={`detector-${type}`}
+                    checked={!draft.disabledDetectors.includes(type)}
+                    onCheckedChange={(checked) => toggleDetector(type, checked)}
+                    data-testid={`switch-detector-${type}`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <Accordion type="multiple" defaultValue={['commitTools']}>
+              {LIST_CONFIGS.map(({ key, label, hint, placeholder, defaults }) => (
+                <AccordionItem key={key} value={key}>
+                  <AccordionTrigger className="text-sm">
+                    <span className="flex items-center gap-2">
+                      {label}
+                      {(draft.removed[key].length > 0 || draft.added[key].trim()) && (
+                        <span className="h-2 w-2 rounded-full bg-primary" />
+                      )}
+                    </span>
+                  </AccordionTrigger>
+                  <AccordionContent className="space-y-3">
+                    <p className="text-xs text-muted-foreground">{hint} Click a default to turn it off.</p>
+                    <div className="flex flex-wrap gap-1.5">
+                      {defaults.map(value => {
+                        const removed = draft.removed[key].includes(value);
+                        return (
+                          <Badge
+                            key={value}
+                            variant="outline"
+                            className={`font-mono text-xs cursor-pointer ${removed ? 'line-through opacity-50' : ''}`}
+                            onClick={() => toggleDefault(key, value)}
+                            data-testid={`badge-default-${key}-${value}`}
+                          >
+                            {value}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                    <Textarea
+                      value={draft.added[key]}
+                      placeholder={placeholder}
+                      onChange={(e) => setDraft(prev => ({ ...prev, added: { ...prev.added, [key]: e.target.value } }))}
+                      className="font-mono text-xs min-h-20"
+                      data-testid={`textarea-${key}`}
+                    />
+                    <p className="text-xs text-muted-foreground">Additional entries, one per line.</p>
+                  </AccordionContent>
+                </AccordionItem>
+              ))}
+              <AccordionItem value="pricing">
+                <AccordionTrigger className="text-sm">
+                  <span className="flex items-center gap-2">
+                    Model Pricing
+                    {draft.pricing.trim() && (
+                      <span className="h-2 w-2 rounded-full bg-primary" />
+                    )}
+                  </span>
+                </AccordionTrigger>
+                <AccordionContent className="space-y-3">
+                  <p className="text-xs text-muted-foreground">
+                    One model per line: a name pattern (<code>*</code> matches anything), then the input and output
+                    price in USD per million tokens, and optionally the prompt-cache read and write prices (10% and
+                    125% of the input price by default). Your entries are checked before the built-in prices.
+                  </p>
+                  <Textarea
+                    value={draft.pricing}
+                    placeholder={PRICING_PLACEHOLDER}
+                    onChange={(e) => setDraft(prev => ({ ...prev, pricing: e.target.value }))}
+                    className="font-mono text-xs min-h-20"
+                    spellCheck={false}
+                    data-testid="textarea-pricing"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Built in: {DEFAULT_PRICING.map(price => `${price.pattern} ${price.inputPerMillion}/${price.outputPerMillion}`).join(', ')}
+                  </p>
+                </AccordionContent>
+              </AccordionItem>
+              <AccordionItem value="traceRules">
+                <AccordionTrigger className="text-sm">
+                  <span className="flex items-center gap-2">
+                    Trace Rules
+                    {draft.traceRules.trim() && (
+                      <span className="h-2 w-2 rounded-full bg-primary" />
+                    )}
+                  </span>
+                </AccordionTrigger>
+                <AccordionContent className="space-y-3">
+                  <p className="text-xs text-muted-foreground">
+                    Declarative assertions in YAML or JSON. Each rule selects steps with <code>match</code> and
+                    checks them with <code>assert</code> (<code>precededBy</code>, <code>followedBy</code>,{' '}
+                    <code>notPrecededBy</code>, <code>notFollowedBy</code>, <code>parent</code>, <code>child</code>,{' '}
+                    <code>numbersFrom</code>); a rule without <code>assert</code> flags every match.
+                  </p>
+                  <Textarea
+                    value={draft.traceRules}
+                    placeholder={TRACE_RULES_PLACEHOLDER}
+                    onChange={(e) => setDraft(prev => ({ ...prev, traceRules: e.target.value }))}
+                    className="font-mono text-xs min-h-40"
+                    spellCheck={false}
+                    data-testid="textarea-trace-rules"
+                  />
+                </AccordionContent>
+              </AccordionItem>
+            </Accordion>
+
+            {error && (
+              <p className="text-sm text-destructive" data-testid="text-analyzer-settings-error">{error}</p>
+            )}
+          </div>
+        </ScrollArea>
+
+        <SheetFooter className="gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.yaml,.yml"
+            onChange={handleImport}
+            className="hidden"
+            data-testid="input-import-analyzer-settings"
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            data-testid="button-import-analyzer-settings"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleReset}
+            disabled={!isCustomized}
+            data-testid="button-reset-analyzer-settings"
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to Defaults
+          </Button>
+          <Button onClick={handleSave} data-testid="button-save-analyzer-settings">
+            <Save className="h-4 w-4 mr-2" />
+            Save Rules
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
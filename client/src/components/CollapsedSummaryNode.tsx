@@ -0,0 +1,77 @@
+import { memo } from 'react';
+import { Handle, Position } from '@xyflow/react';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, AlertTriangle, ChevronsDown, Clock, Zap } from 'lucide-react';
+import type { CollapsedSummary } from '@/lib/graph-grouping';
+
+interface CollapsedSummaryNodeProps {
+  data: CollapsedSummary & {
+    onExpand?: (collapsedId: string) => void;
+    isHighlighted?: boolean;
+  };
+  sourcePosition?: Position;
+  targetPosition?: Position;
+}
+
+function formatDuration(ms: number): string {
+  if (ms >= 1000) {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+  return `${Math.round(ms)}ms`;
+}
+
+function CollapsedSummaryNodeComponent({ data, sourcePosition = Position.Right, targetPosition = Position.Left }: CollapsedSummaryNodeProps) {
+  const count = data.nodeIds.length;
+
+  return (
+    <div
+      onClick={() => data.onExpand?.(data.parentId)}
+      className={`rounded-lg border-2 border-dashed border-muted-foreground/40 bg-muted/60 shadow-md hover:shadow-lg transition-all duration-200 cursor-pointer w-[260px] ${
+        data.isHighlighted ? 'ring-2 ring-primary ring-offset-2 ring-offset-background' : ''
+      }`}
+      title="Click to expand"
+      data-testid={`node-collapsed-${data.parentId}`}
+    >
+      <Handle type="target" position={targetPosition} className="!bg-border !w-3 !h-3" />
+
+      <div className="p-4 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-medium">
+            {count} hidden step{count === 1 ? '' : 's'}
+          </span>
+          <ChevronsDown className="h-4 w-4 text-muted-foreground" />
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {data.totalDurationMs > 0 && (
+            <Badge variant="outline" className="h-5 px-1.5 py-0 text-[10px] gap-0.5">
+              <Clock className="h-3 w-3" />
+              {formatDuration(data.totalDurationMs)}
+            </Badge>
+          )}
+          {data.totalTokens > 0 && (
+            <Badge variant="outline" className="h-5 px-1.5 py-0 text-[10px] gap-0.5">
+              <Zap className="h-3 w-3" />
+              {data.totalTokens.toLocaleString()} tokens
+            </Badge>
+          )}
+          {data.worstSeverity === 'error' && (
+            <Badge variant="destructive" className="h-5 px-1.5 py-0 text-[10px] gap-0.5">
+              <AlertCircle className="h-3 w-3" />
+              {data.issueCount} issue{data.issueCount === 1 ? '' : 's'}
+            </Badge>
+          )}
+          {data.worstSeverity === 'warning' && (
+            <Badge variant="outline" className="h-5 px-1.5 py-0 text-[10px] gap-0.5 text-yellow-600 border-yellow-600">
+              <AlertTriangle className="h-3 w-3" />
+              {data.issueCount} issue{data.issueCount === 1 ? '' : 's'}
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      <Handle type="source" position={sourcePosition} className="!bg-border !w-3 !h-3" />
+    </div>
+  );
+}
+
+export const CollapsedSummaryNode = memo(CollapsedSummaryNodeComponent);
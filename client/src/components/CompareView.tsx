@@ -1,7 +1,7 @@
 import { useState, useCallback, useRef } from 'react';
 import { ReactFlowProvider } from '@xyflow/react';
 import { TraceRun, TraceNode, FieldMapping } from '@shared/models';
-import { GenericAdapter } from '@shared/adapters/generic';
+import { normalizeTrace } from '@shared/adapters/registry';
 import { analyzeTrace } from '@shared/analysis/trace-analyzer';
 import { UploadZone } from '@/components/UploadZone';
 import { TraceGraph } from '@/components/TraceGraph';
@@ -10,6 +10,7 @@ import { NodeInspector } from '@/components/NodeInspector';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { X } from 'lucide-react';
+import { useAnalyzerConfig } from '@/lib/analyzer-config';
 
 interface ComparePanelProps {
   label: string;
@@ -18,7 +19,7 @@ interface ComparePanelProps {
   viewMode: 'graph' | 'timeline';
   hoveredIndex: number | null;
   pairedHoveredIndex: number | null;
-  onUpload: (jsonData: any, mapping?: FieldMapping) => void;
+  onUpload: (jsonData: any, mapping?: FieldMapping, adapterId?: string) => void;
   onNodeSelect: (node: TraceNode | null) => void;
   onHoverIndexChange: (index: number | null) => void;
   onClearTrace: () => void;
@@ -139,22 +140,21 @@ export function CompareView({ viewMode }: CompareViewProps) {
   
   const graphRefA = useRef<HTMLDivElement>(null);
   const graphRefB = useRef<HTMLDivElement>(null);
+  const { config } = useAnalyzerConfig();
   
-  const adapter = new GenericAdapter();
-
-  const handleUploadA = useCallback((jsonData: any, mapping?: FieldMapping) => {
-    const normalized = adapter.normalize(jsonData, mapping);
-    const analyzed = analyzeTrace(normalized);
+  const handleUploadA = useCallback((jsonData: any, mapping?: FieldMapping, adapterId?: string) => {
+    const normalized = normalizeTrace(jsonData, { mapping, adapterId });
+    const analyzed = analyzeTrace(normalized, config);
     setTraceA(analyzed);
     setSelectedNodeA(null);
-  }, []);
+  }, [config]);
 
-  const handleUploadB = useCallback((jsonData: any, mapping?: FieldMapping) => {
-    const normalized = adapter.normalize(jsonData, mapping);
-    const analyzed = analyzeTrace(normalized);
+  const handleUploadB = useCallback((jsonData: any, mapping?: FieldMapping, adapterId?: string) => {
+    const normalized = normalizeTrace(jsonData, { mapping, adapterId });
+    const analyzed = analyzeTrace(normalized, config);
     setTraceB(analyzed);
     setSelectedNodeB(null);
-  }, []);
+  }, [config]);
 
   const handleClearA = useCallback(() => {
     setTraceA(null);
@@ -1,17 +1,27 @@
 import { memo } from 'react';
-import { Handle, Position } from '@xyflow/react';
+import { Handle, Position, useStore, type ReactFlowState } from '@xyflow/react';
 import { TraceNode } from '@shared/models';
+import { formatCost } from '@shared/analysis/cost';
 import { Badge } from '@/components/ui/badge';
-import { AlertCircle, TrendingDown, AlertTriangle, ShieldAlert, ShieldCheck, ShieldQuestion, Clock, Zap } from 'lucide-react';
+import { AlertCircle, TrendingDown, AlertTriangle, ShieldAlert, ShieldCheck, ShieldQuestion, Clock, Zap, DollarSign, ChevronDown, ChevronRight } from 'lucide-react';
 
 interface CustomTraceNodeProps {
   data: TraceNode & { 
     onNodeClick?: (node: TraceNode) => void;
     isHighlighted?: boolean;
     isDimmed?: boolean;
+    isSearchMatch?: boolean;
+    isActiveMatch?: boolean;
     nodeIndex?: number;
     onHoverIndexChange?: (index: number | null) => void;
+    /** Direct children by parentId; the expand/collapse control shows when non-zero */
+    childCount?: number;
+    isCollapsed?: boolean;
+    onToggleCollapse?: (nodeId: string) => void;
   };
+  /** Handle sides, set from the graph's layout direction */
+  sourcePosition?: Position;
+  targetPosition?: Position;
 }
 
 const nodeColors = {
@@ -47,7 +57,12 @@ const nodeColors = {
   }
 };
 
-function CustomTraceNodeComponent({ data }: CustomTraceNodeProps) {
+// Below this zoom the text is unreadable, so nodes render as plain cards
+const DETAIL_ZOOM = 0.45;
+const zoomedOutSelector = (state: ReactFlowState) => state.transform[2] < DETAIL_ZOOM;
+
+function CustomTraceNodeComponent({ data, sourcePosition = Position.Right, targetPosition = Position.Left }: CustomTraceNodeProps) {
+  const zoomedOut = useStore(zoomedOutSelector);
   const colors = nodeColors[data.type] || nodeColors.other;
   const hasLowConfidence = data.confidence !== undefined && data.confidence < 0.6;
   const hasError = data.metadata?.error === true || 
@@ -61,8 +76,12 @@ function CustomTraceNodeComponent({ data }: CustomTraceNodeProps) {
   const metricsHasError = data.metrics?.hasError;
   const isSlow = data.metrics?.isSlow;
   const isTokenHeavy = data.metrics?.isTokenHeavy;
+  const costUsd = data.metrics?.costUsd;
   const isHighlighted = data.isHighlighted;
   const isDimmed = data.isDimmed;
+  const searchOutline = data.isActiveMatch
+    ? 'outline outline-4 outline-offset-2 outline-yellow-400'
+    : data.isSearchMatch ? 'outline outline-2 outline-offset-2 outline-yellow-400/70' : '';
   
   // Check for specific issue types to show dedicated badges
   const hasSuspiciousTransition = data.issues?.some(i => i.type === 'suspicious_transition');
@@ -91,6 +110,29 @@ function CustomTraceNodeComponent({ data }: CustomTraceNodeProps) {
     }
   };
 
+  if (zoomedOut) {
+    return (
+      <div
+        onClick={() => data.onNodeClick?.(data)}
+        className={`rounded-lg w-[300px] h-[110px] flex items-center justify-between px-6 cursor-pointer ${searchOutline}`}
+        style={{
+          backgroundColor: colors.bg,
+          borderLeft: `12px solid ${colors.border}`,
+          opacity: isDimmed ? 0.5 : 1,
+          boxShadow: isHighlighted ? `0 0 0 8px ${colors.border}` : undefined,
+        }}
+        data-testid={`node-compact-${data.id}`}
+      >
+        <Handle type="target" position={targetPosition} className="!bg-border !w-3 !h-3" />
+        <span className="text-4xl font-semibold" style={{ color: colors.text }}>{data.type}</span>
+        {(hasIssues || hasError || metricsHasError) && (
+          <span className={`h-8 w-8 rounded-full ${hasError || metricsHasError ? 'bg-destructive' : 'bg-yellow-500'}`} />
+        )}
+        <Handle type="source" position={sourcePosition} className="!bg-border !w-3 !h-3" />
+      </div>
+    );
+  }
+
   return (
     <div
       onClick={() => data.onNodeClick?.(data)}
@@ -98,7 +140,7 @@ function CustomTraceNodeComponent({ data }: CustomTraceNodeProps) {
       onMouseLeave={handleMouseLeave}
       className={`rounded-lg shadow-lg hover:shadow-xl transition-all duration-200 cursor-pointer min-w-[220px] max-w-[300px] ${
         isHighlighted ? 'ring-2 ring-offset-2 ring-offset-background' : ''
-      }`}
+      } ${searchOutline}`}
       style={{
         backgroundColor: colors.bg,
         borderLeft: `4px solid ${colors.border}`,
@@ -108,17 +150,34 @@ function CustomTraceNodeComponent({ data }: CustomTraceNodeProps) {
       }}
       data-testid={`node-${data.id}`}
     >
-      <Handle type="target" position={Position.Left} className="!bg-border !w-3 !h-3" />
+      <Handle type="target" position={targetPosition} className="!bg-border !w-3 !h-3" />
       
       <div className="p-4 space-y-3">
         <div className="flex items-start justify-between gap-2">
-          <Badge 
-            variant="outline" 
-            className="text-xs font-medium"
-            style={{ color: colors.text, borderColor: colors.border }}
-          >
-            {data.type}
-          </Badge>
+          <div className="flex items-center gap-1">
+            <Badge 
+              variant="outline" 
+              className="text-xs font-medium"
+              style={{ color: colors.text, borderColor: colors.border }}
+            >
+              {data.type}
+            </Badge>
+            {!!data.childCount && data.onToggleCollapse && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  data.onToggleCollapse?.(data.id);
+                }}
+                className="nodrag flex items-center gap-0.5 rounded px-1 text-[10px] text-muted-foreground hover-elevate"
+                title={data.isCollapsed ? 'Expand descendants' : 'Collapse descendants'}
+                data-testid={`button-toggle-collapse-${data.id}`}
+              >
+                {data.isCollapsed ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                {data.childCount}
+              </button>
+            )}
+          </div>
           <div className="flex items-center gap-1 flex-wrap justify-end">
             {metricsHasError && (
               <Badge 
@@ -148,6 +207,17 @@ function CustomTraceNodeComponent({ data }: CustomTraceNodeProps) {
                 tokens
               </Badge>
             )}
+            {costUsd !== undefined && costUsd > 0 && (
+              <Badge 
+                variant="outline"
+                className="h-5 px-1.5 py-0 text-[10px] gap-0.5 text-emerald-700 border-emerald-600 dark:text-emerald-400"
+                data-testid={`badge-cost-${data.id}`}
+                title="Estimated cost of this step"
+              >
+                <DollarSign className="h-3 w-3" />
+                {formatCost(costUsd).slice(1)}
+              </Badge>
+            )}
             {hasSuspiciousTransition && (
               <Badge 
                 className="h-5 px-1.5 py-0 text-[10px] gap-0.5 bg-yellow-500 text-black border-transparent dark:bg-yellow-600 dark:text-black"
@@ -219,7 +289,7 @@ function CustomTraceNodeComponent({ data }: CustomTraceNodeProps) {
         )}
       </div>
       
-      <Handle type="source" position={Position.Right} className="!bg-border !w-3 !h-3" />
+      <Handle type="source" position={sourcePosition} className="!bg-border !w-3 !h-3" />
     </div>
   );
 }
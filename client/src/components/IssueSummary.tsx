@@ -1,77 +1,46 @@
-import { AlertTriangle, ChevronDown, ChevronUp, X, RefreshCw, Repeat, MessageSquareOff, ArrowRightLeft, MessageSquare, AlertCircle, Circle, Sparkles, ShieldAlert, Ban, Activity } from 'lucide-react';
+import { AlertTriangle, ChevronDown, ChevronUp, X, RefreshCw, AlertCircle, Activity, DollarSign, ChevronRight, Crosshair } from 'lucide-react';
 import { useState } from 'react';
-import { TraceRun, IssueType, RiskLevel } from '@shared/models';
+import { TraceRun, TraceIssue, IssueType, RiskLevel } from '@shared/models';
+import { getAdapter } from '@shared/adapters/registry';
+import { getDetector, listDetectors } from '@shared/analysis/trace-analyzer';
+import { formatCost } from '@shared/analysis/cost';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { isSameIssue } from '@/lib/trace-focus';
+import { issueIcon } from '@/lib/issue-icons';
 
 interface IssueSummaryProps {
   trace: TraceRun | null;
   onClose?: () => void;
+  /** The issue the views are focused on */
+  focusedIssue?: TraceIssue | null;
+  /** Makes each issue clickable; called with null when the focused issue is clicked again */
+  onIssueFocus?: (issue: TraceIssue | null) => void;
 }
 
-const ISSUE_ICONS: Record<IssueType, typeof AlertTriangle> = {
-  guessing_after_error: Sparkles,
-  commit_after_empty: ShieldAlert,
-  unhandled_error: Ban,
-  loop: Repeat,
-  missing_observation: MessageSquareOff,
-  suspicious_transition: ArrowRightLeft,
-  contradiction_candidate: MessageSquare,
-  error_ignored: AlertCircle,
-  empty_result: Circle
-};
-
-const ISSUE_LABELS: Record<IssueType, string> = {
-  guessing_after_error: 'Guessing After Error',
-  commit_after_empty: 'Commit After Empty',
-  unhandled_error: 'Unhandled Errors',
-  loop: 'Loops',
-  missing_observation: 'Missing Observations',
-  suspicious_transition: 'Suspicious Transitions',
-  contradiction_candidate: 'Contradictions',
-  error_ignored: 'Errors Ignored',
-  empty_result: 'Empty Results'
-};
-
-const ISSUE_PRIORITY: IssueType[] = [
-  'guessing_after_error',
-  'commit_after_empty',
-  'unhandled_error',
-  'error_ignored',
-  'loop',
-  'missing_observation',
-  'empty_result',
-  'suspicious_transition',
-  'contradiction_candidate'
-];
-
 const RISK_COLORS: Record<RiskLevel, { bg: string; text: string; border: string }> = {
   low: { bg: 'bg-green-500/10', text: 'text-green-500', border: 'border-green-500/20' },
   medium: { bg: 'bg-yellow-500/10', text: 'text-yellow-500', border: 'border-yellow-500/20' },
   high: { bg: 'bg-destructive/10', text: 'text-destructive', border: 'border-destructive/20' }
 };
 
-export function IssueSummary({ trace, onClose }: IssueSummaryProps) {
+export function IssueSummary({ trace, onClose, focusedIssue, onIssueFocus }: IssueSummaryProps) {
   const [isExpanded, setIsExpanded] = useState(true);
+  const [expandedType, setExpandedType] = useState<IssueType | null>(focusedIssue?.type ?? null);
 
   if (!trace) return null;
 
   const totalIssues = trace.issues?.length || 0;
-  const summary: Record<IssueType, number> = trace.issueSummary || {
-    loop: 0,
-    missing_observation: 0,
-    suspicious_transition: 0,
-    contradiction_candidate: 0,
-    error_ignored: 0,
-    empty_result: 0,
-    guessing_after_error: 0,
-    commit_after_empty: 0,
-    unhandled_error: 0
-  };
+  const summary: Record<IssueType, number> = trace.issueSummary || ({} as Record<IssueType, number>);
   const riskLevel = trace.riskLevel || 'low';
   const riskColors = RISK_COLORS[riskLevel];
 
-  const nonZeroIssues = ISSUE_PRIORITY
+  // Issue types without a registered detector (e.g. from a server with extra detectors) go last
+  const detectorTypes = listDetectors().map(d => d.type);
+  const nonZeroIssues = [
+    ...detectorTypes,
+    ...Object.keys(summary).filter(type => !detectorTypes.includes(type))
+  ]
     .filter(type => (summary[type] || 0) > 0)
     .map(type => [type, summary[type]] as [IssueType, number]);
   
@@ -153,21 +122,54 @@ export function IssueSummary({ trace, onClose }: IssueSummaryProps) {
           ) : (
             <div className="space-y-1">
               {nonZeroIssues.map(([type, count]) => {
-                const Icon = ISSUE_ICONS[type as IssueType];
-                const label = ISSUE_LABELS[type as IssueType];
+                const Icon = issueIcon(type);
+                // Trace rules are not registered; their issues carry the rule title
+                const label = getDetector(type)?.label ?? trace.issues?.find(i => i.type === type)?.title ?? type;
+                const isOpen = !!onIssueFocus && expandedType === type;
+                const Chevron = isOpen ? ChevronDown : ChevronRight;
                 return (
-                  <div 
-                    key={type}
-                    className="flex items-center justify-between p-2 rounded-md bg-muted/30"
-                    data-testid={`issue-count-${type}`}
-                  >
-                    <div className="flex items-center gap-2">
-                      <Icon className="h-3 w-3 text-muted-foreground" />
-                      <span className="text-sm">{label}</span>
+                  <div key={type}>
+                    <div
+                      className={`flex items-center justify-between p-2 rounded-md bg-muted/30 ${
+                        onIssueFocus ? 'cursor-pointer hover:bg-muted/50' : ''
+                      }`}
+                      onClick={onIssueFocus ? () => setExpandedType(isOpen ? null : type) : undefined}
+                      data-testid={`issue-count-${type}`}
+                    >
+                      <div className="flex items-center gap-2">
+                        {onIssueFocus && <Chevron className="h-3 w-3 text-muted-foreground" />}
+                        <Icon className="h-3 w-3 text-muted-foreground" />
+                        <span className="text-sm">{label}</span>
+                      </div>
+                      <Badge variant="outline" className="text-xs">
+                        {count}
+                      </Badge>
                     </div>
-                    <Badge variant="outline" className="text-xs">
-                      {count}
-                    </Badge>
+                    {isOpen && (
+                      <div className="mt-1 ml-3 max-h-48 overflow-y-auto space-y-1">
+                        {(trace.issues || []).filter(issue => issue.type === type).map(issue => {
+                          const isFocused = !!focusedIssue && isSameIssue(issue, focusedIssue);
+                          return (
+                            <button
+                              key={issue.id}
+                              type="button"
+                              className={`w-full text-left p-2 rounded-md text-xs transition-colors ${
+                                isFocused ? 'bg-primary/10 ring-1 ring-primary/40' : 'hover:bg-muted/50'
+                              }`}
+                              onClick={() => onIssueFocus!(isFocused ? null : issue)}
+                              title={isFocused ? 'Show all steps' : 'Focus on the steps of this issue'}
+                              data-testid={`button-focus-issue-${issue.id}`}
+                            >
+                              <span className="line-clamp-2">{issue.description}</span>
+                              <span className="mt-1 flex items-center gap-1 text-muted-foreground">
+                                <Crosshair className="h-3 w-3" />
+                                {issue.nodeIds.length} step{issue.nodeIds.length !== 1 ? 's' : ''}
+                              </span>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
                   </div>
                 );
               })}
@@ -196,6 +198,28 @@ export function IssueSummary({ trace, onClose }: IssueSummaryProps) {
                 <span>Total steps:</span>
                 <span className="font-medium">{stats.totalNodes}</span>
               </div>
+              {stats.cost && (
+                <div className="space-y-1" data-testid="cost-summary">
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <div className="flex items-center gap-1">
+                      <DollarSign className="h-3 w-3" />
+                      <span>Estimated cost:</span>
+                    </div>
+                    <span className="font-medium font-mono">{formatCost(stats.cost.totalUsd)}</span>
+                  </div>
+                  {stats.cost.byTool.slice(0, 3).map(branch => (
+                    <div key={branch.tool} className="flex items-center justify-between text-xs text-muted-foreground pl-4">
+                      <span className="truncate">{branch.tool}</span>
+                      <span className="font-mono">{formatCost(branch.costUsd)}</span>
+                    </div>
+                  ))}
+                  {stats.cost.unpricedModels.length > 0 && (
+                    <p className="text-xs text-muted-foreground pl-4">
+                      No price for {stats.cost.unpricedModels.join(', ')}
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
           )}
 
@@ -203,7 +227,7 @@ export function IssueSummary({ trace, onClose }: IssueSummaryProps) {
             <div className="pt-2 border-t border-border">
               <div className="flex items-center gap-2">
                 <span className="text-xs text-muted-foreground">Source:</span>
-                <Badge variant="outline" className="text-xs">{trace.source}</Badge>
+                <Badge variant="outline" className="text-xs">{getAdapter(trace.source)?.label ?? trace.source}</Badge>
               </div>
             </div>
           )}
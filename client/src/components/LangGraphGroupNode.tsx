@@ -0,0 +1,26 @@
+import { memo } from 'react';
+import { Network } from 'lucide-react';
+
+interface LangGraphGroupNodeProps {
+  data: {
+    nodeName: string;
+    stepCount: number;
+  };
+}
+
+function LangGraphGroupNodeComponent({ data }: LangGraphGroupNodeProps) {
+  return (
+    <div
+      className="h-full w-full rounded-xl border-2 border-dashed border-primary/40 bg-primary/5"
+      data-testid={`group-langgraph-${data.nodeName}`}
+    >
+      <div className="flex items-center gap-1.5 px-3 pt-1.5 text-xs font-medium text-primary">
+        <Network className="h-3.5 w-3.5" />
+        <span className="truncate">{data.nodeName}</span>
+        <span className="text-muted-foreground font-normal">· {data.stepCount} steps</span>
+      </div>
+    </div>
+  );
+}
+
+export const LangGraphGroupNode = memo(LangGraphGroupNodeComponent);
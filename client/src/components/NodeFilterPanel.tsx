@@ -0,0 +1,121 @@
+import { Filter } from 'lucide-react';
+import { NodeType, RiskLevel } from '@shared/models';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { EMPTY_NODE_FILTERS, NodeCondition, NodeFilters } from '@/lib/trace-focus';
+
+interface NodeFilterPanelProps {
+  filters: NodeFilters;
+  onFiltersChange: (filters: NodeFilters) => void;
+  /** Hide steps that are filtered out or outside the focus, rather than dim them */
+  hideFiltered: boolean;
+  onHideFilteredChange: (hide: boolean) => void;
+}
+
+const NODE_TYPES: NodeType[] = ['thought', 'action', 'observation', 'output', 'system', 'other'];
+const RISK_LEVELS: RiskLevel[] = ['high', 'medium', 'low'];
+const CONDITIONS: Array<{ value: NodeCondition; label: string }> = [
+  { value: 'error', label: 'Errors' },
+  { value: 'slow', label: 'Slow' },
+  { value: 'tokenHeavy', label: 'Token-heavy' },
+];
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+}
+
+interface OptionGroupProps<T extends string> {
+  title: string;
+  options: Array<{ value: T; label: string }>;
+  selected: T[];
+  onToggle: (value: T) => void;
+}
+
+function OptionGroup<T extends string>({ title, options, selected, onToggle }: OptionGroupProps<T>) {
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium text-muted-foreground">{title}</p>
+      <div className="grid grid-cols-2 gap-2">
+        {options.map(({ value, label }) => (
+          <div key={value} className="flex items-center gap-2">
+            <Checkbox
+              id={`filter-${value}`}
+              checked={selected.includes(value)}
+              onCheckedChange={() => onToggle(value)}
+              data-testid={`checkbox-filter-${value}`}
+            />
+            <Label htmlFor={`filter-${value}`} className="text-sm font-normal capitalize">{label}</Label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function NodeFilterPanel({ filters, onFiltersChange, hideFiltered, onHideFilteredChange }: NodeFilterPanelProps) {
+  const activeCount = filters.types.length + filters.risks.length + filters.conditions.length;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" data-testid="button-node-filters">
+          <Filter className="h-4 w-4" />
+          Filter
+          {activeCount > 0 && (
+            <Badge variant="secondary" className="h-5 px-1.5 font-mono">{activeCount}</Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72 space-y-4" data-testid="node-filter-panel">
+        <OptionGroup
+          title="Step type"
+          options={NODE_TYPES.map(type => ({ value: type, label: type }))}
+          selected={filters.types}
+          onToggle={type => onFiltersChange({ ...filters, types: toggle(filters.types, type) })}
+        />
+        <OptionGroup
+          title="Risk"
+          options={RISK_LEVELS.map(risk => ({ value: risk, label: risk }))}
+          selected={filters.risks}
+          onToggle={risk => onFiltersChange({ ...filters, risks: toggle(filters.risks, risk) })}
+        />
+        <OptionGroup
+          title="Flagged"
+          options={CONDITIONS}
+          selected={filters.conditions}
+          onToggle={condition => onFiltersChange({ ...filters, conditions: toggle(filters.conditions, condition) })}
+        />
+
+        <div className="flex items-center justify-between gap-2 pt-2 border-t border-border">
+          <span className="text-xs text-muted-foreground">Other steps</span>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={hideFiltered ? 'hide' : 'dim'}
+            onValueChange={value => value && onHideFilteredChange(value === 'hide')}
+            data-testid="toggle-filter-mode"
+          >
+            <ToggleGroupItem value="dim">Dim</ToggleGroupItem>
+            <ToggleGroupItem value="hide">Hide</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        {activeCount > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full"
+            onClick={() => onFiltersChange(EMPTY_NODE_FILTERS)}
+            data-testid="button-clear-filters"
+          >
+            Clear filters
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
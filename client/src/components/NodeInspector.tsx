@@ -1,6 +1,6 @@
 import { X, ChevronDown, ChevronUp, Copy, Check, AlertCircle, ExternalLink, GripVertical, AlertTriangle, Lightbulb, Info, Network, Clock, Zap, Cpu, Timer } from 'lucide-react';
 import { useState, useRef, useEffect } from 'react';
-import { TraceNode, TraceRun, TraceIssue, RiskLevel, NodeMetrics } from '@shared/models';
+import { TraceNode, TraceRun, TraceIssue, IssueEvidence, RiskLevel, NodeMetrics } from '@shared/models';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
@@ -141,6 +141,29 @@ function JSONViewer({ data, maxHeight = '300px' }: { data: any; maxHeight?: stri
   );
 }
 
+function EvidenceList({ evidence }: { evidence: IssueEvidence[] }) {
+  return (
+    <ul className="space-y-1" data-testid="list-issue-evidence">
+      {evidence.map((item, index) => {
+        const start = item.sentence.indexOf(item.claim);
+        return (
+          <li key={index} className="text-xs border-l-2 border-border pl-2">
+            {start === -1 ? (
+              <>{item.sentence} <span className="font-medium">({item.claim})</span></>
+            ) : (
+              <>
+                {item.sentence.slice(0, start)}
+                <mark className="bg-yellow-500/30 text-foreground rounded-sm px-0.5">{item.claim}</mark>
+                {item.sentence.slice(start + item.claim.length)}
+              </>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
 function formatTimestamp(timestamp: number): string {
   return new Date(timestamp).toLocaleString(undefined, {
     year: 'numeric',
@@ -628,6 +651,18 @@ export function NodeInspector({ node, trace, onClose, onNavigateToNode, isCompac
                         <span className="text-xs font-mono" data-testid="text-completion-tokens">{metrics.tokenUsage.completion.toLocaleString()}</span>
                       </div>
                     )}
+                    {metrics.tokenUsage.cacheRead !== undefined && (
+                      <div className="flex justify-between items-center">
+                        <span className="text-xs text-muted-foreground">Cache Read Tokens:</span>
+                        <span className="text-xs font-mono" data-testid="text-cache-read-tokens">{metrics.tokenUsage.cacheRead.toLocaleString()}</span>
+                      </div>
+                    )}
+                    {metrics.tokenUsage.cacheWrite !== undefined && (
+                      <div className="flex justify-between items-center">
+                        <span className="text-xs text-muted-foreground">Cache Write Tokens:</span>
+                        <span className="text-xs font-mono" data-testid="text-cache-write-tokens">{metrics.tokenUsage.cacheWrite.toLocaleString()}</span>
+                      </div>
+                    )}
                     {metrics.tokenUsage.total !== undefined && (
                       <div className="flex justify-between items-center">
                         <span className="text-xs text-muted-foreground">Total Tokens:</span>
@@ -761,6 +796,9 @@ export function NodeInspector({ node, trace, onClose, onNavigateToNode, isCompac
                           <div className="flex-1 space-y-1">
                             <p className="text-sm font-medium">{issue.title}</p>
                             <p className="text-xs text-muted-foreground">{issue.description}</p>
+                            {issue.evidence && issue.evidence.length > 0 && (
+                              <EvidenceList evidence={issue.evidence.filter(item => item.nodeId === node.id)} />
+                            )}
                             <div className="flex items-start gap-1 mt-2 pt-2 border-t border-border/50">
                               <Lightbulb className="h-3 w-3 text-primary mt-0.5" />
                               <p className="text-xs text-primary">{issue.suggestion}</p>
@@ -0,0 +1,109 @@
+import { useMemo } from 'react';
+import { Layers } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { RunSplit, SplitRun, RiskLevel } from '@shared/models';
+import { analyzeTrace } from '@shared/analysis/trace-analyzer';
+import { useAnalyzerConfig } from '@/lib/analyzer-config';
+
+interface RunPickerProps {
+  split: RunSplit;
+  onSelect: (run: SplitRun) => void;
+  onOpenAll: () => void;
+  onCancel: () => void;
+}
+
+const RISK_COLORS: Record<RiskLevel, string> = {
+  low: 'bg-green-500/10 text-green-500 border-green-500/20',
+  medium: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20',
+  high: 'bg-destructive/10 text-destructive border-destructive/20',
+};
+
+function runStartTime(run: SplitRun): number | undefined {
+  let start: number | undefined;
+  for (const node of run.trace.nodes) {
+    const time = node.metrics?.startTime ?? node.timestamp;
+    if (time !== undefined && (start === undefined || time < start)) {
+      start = time;
+    }
+  }
+  return start;
+}
+
+export function RunPicker({ split, onSelect, onOpenAll, onCancel }: RunPickerProps) {
+  const { config } = useAnalyzerConfig();
+  const rows = useMemo(() => split.runs.map(run => ({
+    run,
+    riskLevel: analyzeTrace(run.trace, config).riskLevel || 'low',
+    startTime: runStartTime(run),
+  })), [split, config]);
+
+  return (
+    <div className="w-full max-w-3xl mx-auto p-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-start gap-3">
+            <div className="rounded-full bg-primary/10 p-2">
+              <Layers className="h-5 w-5 text-primary" />
+            </div>
+            <div className="flex-1">
+              <CardTitle className="text-lg">This log contains {split.runs.length} runs</CardTitle>
+              <CardDescription className="mt-1">
+                Steps were grouped by <span className="font-mono">{split.field}</span>. Pick a run to open it.
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          <ScrollArea className="h-80 rounded-md border">
+            <div className="divide-y" data-testid="run-picker-list">
+              {rows.map(({ run, riskLevel, startTime }) => (
+                <button
+                  key={run.runKey}
+                  type="button"
+                  onClick={() => onSelect(run)}
+                  className="w-full flex items-center gap-4 px-4 py-3 text-left hover-elevate"
+                  data-testid={`run-option-${run.runKey}`}
+                >
+                  <span className="font-mono text-sm truncate flex-1">{run.runKey}</span>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {startTime !== undefined ? new Date(startTime).toLocaleString() : 'No timestamp'}
+                  </span>
+                  <span className="text-xs text-muted-foreground shrink-0 w-20 text-right">
+                    <span className="font-mono">{run.trace.nodes.length}</span> nodes
+                  </span>
+                  <Badge variant="outline" className={`text-xs shrink-0 w-16 justify-center ${RISK_COLORS[riskLevel]}`}>
+                    {riskLevel}
+                  </Badge>
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+
+          {split.warnings && split.warnings.length > 0 && (
+            <div className="text-sm text-amber-600 dark:text-amber-500">
+              <p className="font-medium mb-1">Warnings:</p>
+              <ul className="list-disc list-inside space-y-0.5">
+                {split.warnings.map((warning, i) => (
+                  <li key={i} className="text-xs">{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex gap-2 justify-end">
+            <Button variant="ghost" onClick={onCancel} data-testid="button-run-picker-cancel">
+              Back
+            </Button>
+            <Button variant="outline" onClick={onOpenAll} data-testid="button-run-picker-open-all">
+              Open as one trace
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
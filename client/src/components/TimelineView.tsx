@@ -1,7 +1,9 @@
+import { memo, useEffect, useMemo, useRef } from 'react';
 import { TraceRun, TraceNode } from '@shared/models';
+import { formatCost } from '@shared/analysis/cost';
 import { Badge } from '@/components/ui/badge';
 import { Card } from '@/components/ui/card';
-import { ScrollArea } from '@/components/ui/scroll-area';
+import { useVirtualList } from '@/hooks/useVirtualList';
 import { AlertCircle, TrendingDown, Clock, AlertTriangle, ShieldAlert, ShieldCheck, ShieldQuestion, Timer, Coins } from 'lucide-react';
 
 interface TimelineViewProps {
@@ -10,6 +12,14 @@ interface TimelineViewProps {
   hoveredIndex?: number | null;
   pairedHoveredIndex?: number | null;
   onHoverIndexChange?: (index: number | null) => void;
+  /** Search results; other steps are dimmed while a search is active */
+  matchNodeIds?: ReadonlySet<string>;
+  /** The search result to scroll to */
+  activeMatchId?: string;
+  /** Steps left by the node filters or issue focus; the rest are dimmed or hidden */
+  visibleNodeIds?: ReadonlySet<string>;
+  hideFiltered?: boolean;
+  live?: boolean;
 }
 
 const nodeColors: Record<string, { border: string; text: string }> = {
@@ -21,16 +31,236 @@ const nodeColors: Record<string, { border: string; text: string }> = {
   other: { border: 'hsl(var(--node-other))', text: 'hsl(var(--node-other))' },
 };
 
-export function TimelineView({ trace, onNodeClick, hoveredIndex, pairedHoveredIndex, onHoverIndexChange }: TimelineViewProps) {
-  const sortedNodes = [...trace.nodes].sort((a, b) => {
+interface TimelineItemProps {
+  node: TraceNode;
+  index: number;
+  isLast: boolean;
+  isPairedHighlight: boolean;
+  /** Undefined when no search is active */
+  isSearchMatch?: boolean;
+  isActiveMatch: boolean;
+  isFilteredOut: boolean;
+  onNodeClick: (node: TraceNode) => void;
+  onHoverIndexChange?: (index: number | null) => void;
+}
+
+const TimelineItem = memo(function TimelineItem({ node, index, isLast, isPairedHighlight, isSearchMatch, isActiveMatch, isFilteredOut, onNodeClick, onHoverIndexChange }: TimelineItemProps) {
+  const colors = nodeColors[node.type] || nodeColors.other;
+  const hasLowConfidence = node.confidence !== undefined && node.confidence < 0.6;
+  const hasError = node.metadata?.error === true || 
+                 !!node.metadata?.exception || 
+                 node.metadata?.status === 'failed' ||
+                 node.metadata?.status === 'error';
+  const issueCount = node.issues?.length || 0;
+  const hasIssues = issueCount > 0;
+  const riskLevel = node.riskLevel;
+
+  const metricsHasError = node.metrics?.hasError;
+  const metricsIsSlow = node.metrics?.isSlow;
+  const metricsIsTokenHeavy = node.metrics?.isTokenHeavy;
+  const metricsDurationMs = node.metrics?.durationMs;
+  
+  // Check for specific issue types
+  const hasSuspiciousTransition = node.issues?.some(i => i.type === 'suspicious_transition');
+  const hasLoop = node.issues?.some(i => i.type === 'loop');
+
+  return (
+    <div 
+      className="flex gap-4 group"
+      onMouseEnter={() => onHoverIndexChange?.(index)}
+      onMouseLeave={() => onHoverIndexChange?.(null)}
+      data-testid={`timeline-item-${index}`}
+    >
+      <div className="flex flex-col items-center">
+        <div 
+          className={`w-9 h-9 rounded-full flex items-center justify-center text-xs font-semibold shadow-md transition-all duration-200 ${
+            isPairedHighlight ? 'ring-2 ring-primary ring-offset-2 scale-110' : ''
+          }`}
+          style={{ 
+            backgroundColor: colors.border,
+            color: 'white'
+          }}
+        >
+          {index + 1}
+        </div>
+        {!isLast && (
+          <div 
+            className="w-0.5 flex-1 min-h-[80px] mt-1"
+            style={{ backgroundColor: colors.border, opacity: 0.3 }}
+          />
+        )}
+      </div>
+
+      <Card
+        className={`flex-1 p-5 cursor-pointer hover-elevate active-elevate-2 transition-all duration-200 ${
+          isPairedHighlight ? 'ring-2 ring-primary/50 shadow-lg' : ''
+        } ${
+          isActiveMatch ? 'ring-4 ring-yellow-400' : isSearchMatch ? 'ring-2 ring-yellow-400/70' : ''
+        } ${
+          isSearchMatch === false || isFilteredOut ? 'opacity-50' : ''
+        }`}
+        style={{ borderLeftWidth: '4px', borderLeftColor: colors.border }}
+        onClick={() => onNodeClick(node)}
+        data-testid={`timeline-node-${node.id}`}
+      >
+        <div className="space-y-4">
+          <div className="flex items-start justify-between gap-3">
+            <div className="flex items-center gap-2 flex-wrap">
+              <Badge
+                variant="outline"
+                className="font-medium"
+                style={{ borderColor: colors.border, color: colors.text }}
+              >
+                {node.type}
+              </Badge>
+              {hasSuspiciousTransition && (
+                <Badge 
+                  className="bg-yellow-500 text-black border-transparent dark:bg-yellow-600 dark:text-black"
+                  data-testid={`badge-suspicious-${node.id}`}
+                >
+                  <AlertTriangle className="h-3 w-3 mr-1" />
+                  Suspicious Transition
+                </Badge>
+              )}
+              {hasLoop && (
+                <Badge 
+                  className="bg-orange-500 text-white border-transparent dark:bg-orange-600"
+                  data-testid={`badge-loop-${node.id}`}
+                >
+                  Loop Detected
+                </Badge>
+              )}
+              {hasIssues && !hasSuspiciousTransition && !hasLoop && (
+                <Badge variant="outline" className="text-yellow-600 border-yellow-600">
+                  <AlertTriangle className="h-3 w-3 mr-1" />
+                  {issueCount} issue{issueCount !== 1 ? 's' : ''}
+                </Badge>
+              )}
+              {riskLevel && (
+                <Badge 
+                  variant="outline" 
+                  className={
+                    riskLevel === 'high' ? 'text-destructive border-destructive' :
+                    riskLevel === 'medium' ? 'text-yellow-600 border-yellow-600' :
+                    'text-green-600 border-green-600'
+                  }
+                >
+                  {riskLevel === 'high' ? <ShieldAlert className="h-3 w-3 mr-1" /> :
+                   riskLevel === 'medium' ? <ShieldQuestion className="h-3 w-3 mr-1" /> :
+                   <ShieldCheck className="h-3 w-3 mr-1" />}
+                  Risk: {riskLevel}
+                </Badge>
+              )}
+              {hasLowConfidence && (
+                <Badge variant="outline" className="text-yellow-600 border-yellow-600">
+                  <TrendingDown className="h-3 w-3 mr-1" />
+                  Low confidence
+                </Badge>
+              )}
+              {hasError && (
+                <Badge variant="destructive">
+                  <AlertCircle className="h-3 w-3 mr-1" />
+                  Error
+                </Badge>
+              )}
+              {metricsHasError && !hasError && (
+                <Badge variant="destructive" data-testid={`badge-metrics-error-${node.id}`}>
+                  <AlertCircle className="h-3 w-3 mr-1" />
+                  Error
+                </Badge>
+              )}
+              {metricsIsSlow && (
+                <Badge variant="outline" className="text-amber-600 border-amber-600" data-testid={`badge-slow-${node.id}`}>
+                  <Timer className="h-3 w-3 mr-1" />
+                  Slow{metricsDurationMs ? ` (${(metricsDurationMs / 1000).toFixed(1)}s)` : ''}
+                </Badge>
+              )}
+              {metricsIsTokenHeavy && (
+                <Badge variant="outline" className="text-purple-600 border-purple-600" data-testid={`badge-token-heavy-${node.id}`}>
+                  <Coins className="h-3 w-3 mr-1" />
+                  Heavy tokens
+                </Badge>
+              )}
+            </div>
+            <div className="flex flex-col items-end gap-0.5 text-xs text-muted-foreground whitespace-nowrap">
+              {node.timestamp && (
+                <span>{new Date(node.timestamp).toLocaleTimeString()}</span>
+              )}
+              {node.metrics?.costUsd !== undefined && (
+                <span className="font-mono" title="Estimated cost" data-testid={`text-cost-${node.id}`}>
+                  {formatCost(node.metrics.costUsd)}
+                </span>
+              )}
+            </div>
+          </div>
+
+          <pre className="text-sm leading-relaxed font-mono whitespace-pre-wrap break-words bg-muted/30 p-3 rounded-md">
+            {node.content}
+          </pre>
+
+          {node.confidence !== undefined && (
+            <div className="flex items-center gap-3 pt-1">
+              <div className="flex-1 h-2 bg-muted rounded-full overflow-hidden">
+                <div
+                  className="h-full transition-all duration-300"
+                  style={{
+                    width: `${node.confidence * 100}%`,
+                    backgroundColor: colors.border,
+                  }}
+                />
+              </div>
+              <span className="text-xs text-muted-foreground font-medium min-w-[3rem] text-right">
+                {Math.round(node.confidence * 100)}%
+              </span>
+            </div>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+});
+
+// Rows are measured once rendered; this only sizes the scrollbar until then
+const ESTIMATED_ITEM_HEIGHT = 200;
+
+export function TimelineView({ trace, onNodeClick, pairedHoveredIndex, onHoverIndexChange, matchNodeIds, activeMatchId, visibleNodeIds, hideFiltered, live }: TimelineViewProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const sortedNodes = useMemo(() => [...trace.nodes].sort((a, b) => {
     if (a.timestamp && b.timestamp) {
       return a.timestamp - b.timestamp;
     }
     return (a.order ?? 0) - (b.order ?? 0);
+  }), [trace.nodes]);
+
+  // Hidden steps drop out of the list but the rest keep their step numbers
+  const rows = useMemo(() => {
+    const all = sortedNodes.map((node, index) => ({ node, index }));
+    return hideFiltered && visibleNodeIds ? all.filter(row => visibleNodeIds.has(row.node.id)) : all;
+  }, [sortedNodes, visibleNodeIds, hideFiltered]);
+
+  const { items, totalSize, measureElement, scrollToIndex } = useVirtualList({
+    count: rows.length,
+    scrollRef,
+    listRef,
+    estimateSize: ESTIMATED_ITEM_HEIGHT,
   });
 
+  useEffect(() => {
+    if (!activeMatchId) return;
+    scrollToIndex(rows.findIndex(row => row.node.id === activeMatchId), 'center');
+  }, [activeMatchId, rows, scrollToIndex]);
+
+  // Keep the newest step in view while a run is live
+  useEffect(() => {
+    if (live) {
+      scrollToIndex(rows.length - 1, 'end');
+    }
+  }, [live, rows.length, scrollToIndex]);
+
   return (
-    <ScrollArea className="h-full w-full">
+    <div ref={scrollRef} className="relative h-full w-full overflow-auto">
       <div className="p-8 max-w-5xl mx-auto space-y-6" data-testid="timeline-view">
         <div className="space-y-2">
           <div className="flex items-center gap-2">
@@ -39,182 +269,37 @@ export function TimelineView({ trace, onNodeClick, hoveredIndex, pairedHoveredIn
           </div>
           <p className="text-sm text-muted-foreground">
             Chronological sequence of {trace.nodes.length} reasoning steps
+            {visibleNodeIds && ` (${visibleNodeIds.size} shown)`}
           </p>
         </div>
 
-        <div className="space-y-5">
-          {sortedNodes.map((node, index) => {
-            const colors = nodeColors[node.type] || nodeColors.other;
-            const hasLowConfidence = node.confidence !== undefined && node.confidence < 0.6;
-            const hasError = node.metadata?.error === true || 
-                           !!node.metadata?.exception || 
-                           node.metadata?.status === 'failed' ||
-                           node.metadata?.status === 'error';
-            const issueCount = node.issues?.length || 0;
-            const hasIssues = issueCount > 0;
-            const riskLevel = node.riskLevel;
-
-            const metricsHasError = node.metrics?.hasError;
-            const metricsIsSlow = node.metrics?.isSlow;
-            const metricsIsTokenHeavy = node.metrics?.isTokenHeavy;
-            const metricsDurationMs = node.metrics?.durationMs;
-            
-            // Check for specific issue types
-            const hasSuspiciousTransition = node.issues?.some(i => i.type === 'suspicious_transition');
-            const hasLoop = node.issues?.some(i => i.type === 'loop');
-
-            const isPairedHighlight = pairedHoveredIndex === index;
-            const isHovered = hoveredIndex === index;
-
+        <div ref={listRef} className="relative" style={{ height: totalSize }}>
+          {items.map(({ index: rowIndex, start }) => {
+            const { node, index } = rows[rowIndex];
             return (
-              <div 
-                key={node.id} 
-                className="flex gap-4 group"
-                onMouseEnter={() => onHoverIndexChange?.(index)}
-                onMouseLeave={() => onHoverIndexChange?.(null)}
-                data-testid={`timeline-item-${index}`}
+              <div
+                key={node.id}
+                ref={measureElement}
+                data-index={rowIndex}
+                className="absolute left-0 right-0 top-0 pb-5"
+                style={{ transform: `translateY(${start}px)` }}
               >
-                <div className="flex flex-col items-center">
-                  <div 
-                    className={`w-9 h-9 rounded-full flex items-center justify-center text-xs font-semibold shadow-md transition-all duration-200 ${
-                      isPairedHighlight ? 'ring-2 ring-primary ring-offset-2 scale-110' : ''
-                    }`}
-                    style={{ 
-                      backgroundColor: colors.border,
-                      color: 'white'
-                    }}
-                  >
-                    {index + 1}
-                  </div>
-                  {index < sortedNodes.length - 1 && (
-                    <div 
-                      className="w-0.5 flex-1 min-h-[80px] mt-1"
-                      style={{ backgroundColor: colors.border, opacity: 0.3 }}
-                    />
-                  )}
-                </div>
-
-                <Card
-                  className={`flex-1 p-5 cursor-pointer hover-elevate active-elevate-2 transition-all duration-200 ${
-                    isPairedHighlight ? 'ring-2 ring-primary/50 shadow-lg' : ''
-                  }`}
-                  style={{ borderLeftWidth: '4px', borderLeftColor: colors.border }}
-                  onClick={() => onNodeClick(node)}
-                  data-testid={`timeline-node-${node.id}`}
-                >
-                  <div className="space-y-4">
-                    <div className="flex items-start justify-between gap-3">
-                      <div className="flex items-center gap-2 flex-wrap">
-                        <Badge
-                          variant="outline"
-                          className="font-medium"
-                          style={{ borderColor: colors.border, color: colors.text }}
-                        >
-                          {node.type}
-                        </Badge>
-                        {hasSuspiciousTransition && (
-                          <Badge 
-                            className="bg-yellow-500 text-black border-transparent dark:bg-yellow-600 dark:text-black"
-                            data-testid={`badge-suspicious-${node.id}`}
-                          >
-                            <AlertTriangle className="h-3 w-3 mr-1" />
-                            Suspicious Transition
-                          </Badge>
-                        )}
-                        {hasLoop && (
-                          <Badge 
-                            className="bg-orange-500 text-white border-transparent dark:bg-orange-600"
-                            data-testid={`badge-loop-${node.id}`}
-                          >
-                            Loop Detected
-                          </Badge>
-                        )}
-                        {hasIssues && !hasSuspiciousTransition && !hasLoop && (
-                          <Badge variant="outline" className="text-yellow-600 border-yellow-600">
-                            <AlertTriangle className="h-3 w-3 mr-1" />
-                            {issueCount} issue{issueCount !== 1 ? 's' : ''}
-                          </Badge>
-                        )}
-                        {riskLevel && (
-                          <Badge 
-                            variant="outline" 
-                            className={
-                              riskLevel === 'high' ? 'text-destructive border-destructive' :
-                              riskLevel === 'medium' ? 'text-yellow-600 border-yellow-600' :
-                              'text-green-600 border-green-600'
-                            }
-                          >
-                            {riskLevel === 'high' ? <ShieldAlert className="h-3 w-3 mr-1" /> :
-                             riskLevel === 'medium' ? <ShieldQuestion className="h-3 w-3 mr-1" /> :
-                             <ShieldCheck className="h-3 w-3 mr-1" />}
-                            Risk: {riskLevel}
-                          </Badge>
-                        )}
-                        {hasLowConfidence && (
-                          <Badge variant="outline" className="text-yellow-600 border-yellow-600">
-                            <TrendingDown className="h-3 w-3 mr-1" />
-                            Low confidence
-                          </Badge>
-                        )}
-                        {hasError && (
-                          <Badge variant="destructive">
-                            <AlertCircle className="h-3 w-3 mr-1" />
-                            Error
-                          </Badge>
-                        )}
-                        {metricsHasError && !hasError && (
-                          <Badge variant="destructive" data-testid={`badge-metrics-error-${node.id}`}>
-                            <AlertCircle className="h-3 w-3 mr-1" />
-                            Error
-                          </Badge>
-                        )}
-                        {metricsIsSlow && (
-                          <Badge variant="outline" className="text-amber-600 border-amber-600" data-testid={`badge-slow-${node.id}`}>
-                            <Timer className="h-3 w-3 mr-1" />
-                            Slow{metricsDurationMs ? ` (${(metricsDurationMs / 1000).toFixed(1)}s)` : ''}
-                          </Badge>
-                        )}
-                        {metricsIsTokenHeavy && (
-                          <Badge variant="outline" className="text-purple-600 border-purple-600" data-testid={`badge-token-heavy-${node.id}`}>
-                            <Coins className="h-3 w-3 mr-1" />
-                            Heavy tokens
-                          </Badge>
-                        )}
-                      </div>
-                      {node.timestamp && (
-                        <span className="text-xs text-muted-foreground whitespace-nowrap">
-                          {new Date(node.timestamp).toLocaleTimeString()}
-                        </span>
-                      )}
-                    </div>
-
-                    <pre className="text-sm leading-relaxed font-mono whitespace-pre-wrap break-words bg-muted/30 p-3 rounded-md">
-                      {node.content}
-                    </pre>
-
-                    {node.confidence !== undefined && (
-                      <div className="flex items-center gap-3 pt-1">
-                        <div className="flex-1 h-2 bg-muted rounded-full overflow-hidden">
-                          <div
-                            className="h-full transition-all duration-300"
-                            style={{
-                              width: `${node.confidence * 100}%`,
-                              backgroundColor: colors.border,
-                            }}
-                          />
-                        </div>
-                        <span className="text-xs text-muted-foreground font-medium min-w-[3rem] text-right">
-                          {Math.round(node.confidence * 100)}%
-                        </span>
-                      </div>
-                    )}
-                  </div>
-                </Card>
+                <TimelineItem
+                  node={node}
+                  index={index}
+                  isLast={rowIndex === rows.length - 1}
+                  isPairedHighlight={pairedHoveredIndex === index}
+                  isSearchMatch={matchNodeIds ? matchNodeIds.has(node.id) : undefined}
+                  isActiveMatch={activeMatchId === node.id}
+                  isFilteredOut={!!visibleNodeIds && !visibleNodeIds.has(node.id)}
+                  onNodeClick={onNodeClick}
+                  onHoverIndexChange={onHoverIndexChange}
+                />
               </div>
             );
           })}
         </div>
       </div>
-    </ScrollArea>
+    </div>
   );
 }
@@ -1,95 +1,326 @@
-import { useCallback, useMemo } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   ReactFlow,
   Background,
   Controls,
   MiniMap,
+  Panel,
   useNodesState,
   useEdgesState,
   Node,
   Edge,
   ConnectionLineType,
   BackgroundVariant,
+  Position,
+  XYPosition,
+  useReactFlow,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
+import { ArrowDown, ArrowRight, Loader2 } from 'lucide-react';
 import { TraceRun, TraceNode } from '@shared/models';
 import { CustomTraceNode } from './CustomTraceNode';
+import { CollapsedSummaryNode } from './CollapsedSummaryNode';
+import { LangGraphGroupNode } from './LangGraphGroupNode';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useGraphLayout } from '@/hooks/useGraphLayout';
+import { LayoutDirection, LayoutInput, NODE_HEIGHT, NODE_WIDTH, toLayoutInput } from '@/lib/graph-layout';
+import { collapseSubtrees, groupLangGraphSteps } from '@/lib/graph-grouping';
+import { restrictToNodes } from '@/lib/trace-focus';
 
 interface TraceGraphProps {
   trace: TraceRun;
   onNodeClick: (node: TraceNode) => void;
   highlightNodeId?: string;
+  /** Search results; other steps are dimmed while a search is active */
+  matchNodeIds?: ReadonlySet<string>;
+  /** The search result to centre on */
+  activeMatchId?: string;
+  /** Steps left by the node filters or issue focus; the rest are dimmed or hidden */
+  visibleNodeIds?: ReadonlySet<string>;
+  hideFiltered?: boolean;
   hoveredIndex?: number | null;
   onHoverIndexChange?: (index: number | null) => void;
+  live?: boolean;
 }
 
 const nodeTypes = {
   traceNode: CustomTraceNode,
+  collapsedSummary: CollapsedSummaryNode,
+  langGraphGroup: LangGraphGroupNode,
 };
 
-export function TraceGraph({ trace, onNodeClick, highlightNodeId, hoveredIndex, onHoverIndexChange }: TraceGraphProps) {
+// Room around a LangGraph group's steps, with space for its label on top
+const GROUP_PADDING = 24;
+const GROUP_LABEL_HEIGHT = 28;
+
+// Above this many steps only nodes and edges inside the viewport are rendered
+const VIEWPORT_CULLING_THRESHOLD = 200;
+
+const DIRECTION_STORAGE_KEY = 'memento_graph_direction';
+
+function loadDirection(): LayoutDirection {
+  return localStorage.getItem(DIRECTION_STORAGE_KEY) === 'LR' ? 'LR' : 'TB';
+}
+
+export function TraceGraph({ trace, onNodeClick, highlightNodeId, matchNodeIds, activeMatchId, visibleNodeIds, hideFiltered, hoveredIndex, onHoverIndexChange, live }: TraceGraphProps) {
+  const { fitView, getInternalNode, getZoom, setCenter } = useReactFlow();
+  const [direction, setDirection] = useState<LayoutDirection>(loadDirection);
+  const [collapsed, setCollapsed] = useState<ReadonlySet<string>>(() => new Set());
+
+  useEffect(() => {
+    setCollapsed(new Set());
+  }, [trace.id]);
+
+  const toggleCollapse = useCallback((nodeId: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (!next.delete(nodeId)) next.add(nodeId);
+      return next;
+    });
+  }, []);
+
+  // Hidden steps are left out of the layout; their children hang off the closest shown ancestor
+  const graphNodes = useMemo(
+    () => (hideFiltered && visibleNodeIds ? restrictToNodes(trace.nodes, visibleNodeIds) : trace.nodes),
+    [trace.nodes, visibleNodeIds, hideFiltered]
+  );
+  const collapse = useMemo(() => collapseSubtrees(graphNodes, collapsed), [graphNodes, collapsed]);
+
+  // Expand whatever hides the active search result
+  useEffect(() => {
+    if (!activeMatchId || !collapse.hiddenBy.has(activeMatchId)) return;
+    const byId = new Map(graphNodes.map(node => [node.id, node]));
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      for (let id = byId.get(activeMatchId)?.parentId; id && next.size > 0; id = byId.get(id)?.parentId) {
+        next.delete(id);
+      }
+      return next;
+    });
+  }, [activeMatchId, collapse, graphNodes]);
+  const groups = useMemo(() => groupLangGraphSteps(collapse.visible), [collapse.visible]);
+  const layoutInput = useMemo<LayoutInput[]>(() => [
+    ...toLayoutInput(collapse.visible),
+    ...collapse.summaries.map(summary => ({ id: summary.id, parentId: summary.parentId })),
+  ], [collapse]);
+  const layout = useGraphLayout(layoutInput, direction);
+
+  const handleDirectionChange = (value: string) => {
+    if (value !== 'TB' && value !== 'LR') return;
+    localStorage.setItem(DIRECTION_STORAGE_KEY, value);
+    setDirection(value);
+  };
+
   const { initialNodes, initialEdges } = useMemo(() => {
-    const nodes: Node[] = trace.nodes.map((node, index) => {
-      const hasParent = node.parentId && trace.nodes.some(n => n.id === node.parentId);
-      
-      let xPosition = index * 350;
-      let yPosition = 100;
-      
-      if (hasParent) {
-        const parentIndex = trace.nodes.findIndex(n => n.id === node.parentId);
-        const childrenOfParent = trace.nodes.filter(n => n.parentId === node.parentId);
-        const childIndex = childrenOfParent.findIndex(n => n.id === node.id);
-        
-        xPosition = (parentIndex + 1) * 350;
-        yPosition = 100 + (childIndex * 160);
+    const latestNodeId = trace.nodes[trace.nodes.length - 1]?.id;
+    if (!layout) {
+      return { initialNodes: [] as Node[], initialEdges: [] as Edge[] };
+    }
+
+    const horizontal = direction === 'LR';
+    const sourcePosition = horizontal ? Position.Right : Position.Bottom;
+    const targetPosition = horizontal ? Position.Left : Position.Top;
+    const indexById = new Map(trace.nodes.map((node, index) => [node.id, index]));
+    // A highlighted step inside a collapsed subtree lights up its summary
+    const highlightId = highlightNodeId !== undefined ? collapse.hiddenBy.get(highlightNodeId) ?? highlightNodeId : undefined;
+    const placed = new Map<string, XYPosition>();
+
+    const stepNodes: Node[] = collapse.visible.map((node, visibleIndex) => {
+      // Steps that arrived after the last worker layout go next to their parent
+      let position = layout[node.id];
+      if (!position) {
+        const parent = node.parentId ? placed.get(node.parentId) : undefined;
+        const previous = visibleIndex > 0 ? placed.get(collapse.visible[visibleIndex - 1].id) : undefined;
+        const anchor = parent ?? previous ?? { x: 0, y: 0 };
+        position = horizontal
+          ? { x: anchor.x + NODE_WIDTH + 90, y: anchor.y }
+          : { x: anchor.x, y: anchor.y + NODE_HEIGHT + 80 };
       }
+      placed.set(node.id, position);
 
-      const isHighlighted = highlightNodeId === node.id;
-      const isDimmed = highlightNodeId !== undefined && highlightNodeId !== node.id;
+      const isHighlighted = highlightId === node.id;
+      const isDimmed = (highlightId !== undefined && highlightId !== node.id) ||
+        (matchNodeIds !== undefined && !matchNodeIds.has(node.id)) ||
+        (visibleNodeIds !== undefined && !visibleNodeIds.has(node.id));
 
       return {
         id: node.id,
         type: 'traceNode',
-        position: { x: xPosition, y: yPosition },
+        position,
+        sourcePosition,
+        targetPosition,
         data: { 
           ...node, 
           onNodeClick, 
           isHighlighted, 
           isDimmed,
-          nodeIndex: index,
+          isSearchMatch: matchNodeIds?.has(node.id),
+          isActiveMatch: activeMatchId === node.id,
+          nodeIndex: indexById.get(node.id),
           onHoverIndexChange,
+          childCount: collapse.childCounts.get(node.id) || 0,
+          isCollapsed: collapsed.has(node.id),
+          onToggleCollapse: toggleCollapse,
         },
       };
     });
 
+    const summaryNodes: Node[] = collapse.summaries.map(summary => {
+      const parent = placed.get(summary.parentId) ?? { x: 0, y: 0 };
+      const position = layout[summary.id] ?? (horizontal
+        ? { x: parent.x + NODE_WIDTH + 90, y: parent.y }
+        : { x: parent.x, y: parent.y + NODE_HEIGHT + 80 });
+      placed.set(summary.id, position);
+      return {
+        id: summary.id,
+        type: 'collapsedSummary',
+        position,
+        sourcePosition,
+        targetPosition,
+        data: { ...summary, onExpand: toggleCollapse, isHighlighted: highlightId === summary.id },
+      };
+    });
+
+    // React Flow positions children relative to their group, and needs each
+    // group before its children in the node list
+    const groupNodes: Node[] = [];
+    const groupOf = new Map<string, { id: string; origin: XYPosition }>();
+    for (const group of groups) {
+      let minX = Infinity;
+      let minY = Infinity;
+      let maxX = -Infinity;
+      let maxY = -Infinity;
+      for (const id of group.nodeIds) {
+        const position = placed.get(id)!;
+        minX = Math.min(minX, position.x);
+        minY = Math.min(minY, position.y);
+        maxX = Math.max(maxX, position.x + NODE_WIDTH);
+        maxY = Math.max(maxY, position.y + NODE_HEIGHT);
+      }
+      const origin = { x: minX - GROUP_PADDING, y: minY - GROUP_PADDING - GROUP_LABEL_HEIGHT };
+      groupNodes.push({
+        id: group.id,
+        type: 'langGraphGroup',
+        position: origin,
+        style: { width: maxX - minX + GROUP_PADDING * 2, height: maxY - minY + GROUP_PADDING * 2 + GROUP_LABEL_HEIGHT },
+        data: { nodeName: group.nodeName, stepCount: group.nodeIds.length },
+        selectable: false,
+        zIndex: -1,
+      });
+      group.nodeIds.forEach(id => groupOf.set(id, { id: group.id, origin }));
+    }
+
+    const nodes: Node[] = [
+      ...groupNodes,
+      ...stepNodes.map(node => {
+        const group = groupOf.get(node.id);
+        if (!group) return node;
+        return {
+          ...node,
+          parentId: group.id,
+          position: { x: node.position.x - group.origin.x, y: node.position.y - group.origin.y },
+        };
+      }),
+      ...summaryNodes,
+    ];
+
     const edges: Edge[] = [];
     const edgeSet = new Set<string>();
-    
-    trace.nodes.forEach((node) => {
-      if (node.parentId) {
-        const edgeId = `${node.parentId}-${node.id}`;
-        if (!edgeSet.has(edgeId)) {
-          edges.push({
-            id: edgeId,
-            source: node.parentId,
-            target: node.id,
-            type: ConnectionLineType.SmoothStep,
-            animated: false,
-            style: { 
-              strokeWidth: 2,
-              stroke: 'hsl(var(--border))'
-            }
-          });
-          edgeSet.add(edgeId);
+    const addEdge = (source: string, target: string) => {
+      const edgeId = `${source}-${target}`;
+      if (edgeSet.has(edgeId)) return;
+      edges.push({
+        id: edgeId,
+        source,
+        target,
+        type: ConnectionLineType.SmoothStep,
+        // While a run is live, the edge into the newest step is animated
+        animated: !!live && target === latestNodeId,
+        style: { 
+          strokeWidth: 2,
+          stroke: 'hsl(var(--border))'
         }
+      });
+      edgeSet.add(edgeId);
+    };
+
+    collapse.visible.forEach((node) => {
+      if (node.parentId && placed.has(node.parentId)) {
+        addEdge(node.parentId, node.id);
       }
     });
+    collapse.summaries.forEach(summary => addEdge(summary.parentId, summary.id));
 
     return { initialNodes: nodes, initialEdges: edges };
-  }, [trace, onNodeClick, highlightNodeId, onHoverIndexChange]);
+  }, [trace, layout, direction, collapse, collapsed, groups, toggleCollapse, onNodeClick, highlightNodeId, matchNodeIds, activeMatchId, visibleNodeIds, onHoverIndexChange, live]);
+
+  const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
+  const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
+  const draggedRef = useRef(new Map<string, XYPosition>());
+
+  // A new trace or direction discards positions the user dragged to
+  useEffect(() => {
+    draggedRef.current.clear();
+  }, [trace.id, direction]);
+
+  // The trace can change after mount (live runs, replay highlight), so keep
+  // React Flow's copy in sync while preserving positions the user dragged to
+  useEffect(() => {
+    setNodes(initialNodes.map(n => ({ ...n, position: draggedRef.current.get(n.id) ?? n.position })));
+  }, [initialNodes, setNodes]);
+
+  useEffect(() => {
+    setEdges(initialEdges);
+  }, [initialEdges, setEdges]);
+
+  // Fit once a layout first arrives and whenever the direction changes
+  const hasLayout = layout !== null;
+  useEffect(() => {
+    if (!hasLayout || live) return;
+    const frame = requestAnimationFrame(() => fitView({ padding: 0.3 }));
+    return () => cancelAnimationFrame(frame);
+  }, [hasLayout, direction, trace.id, live, fitView]);
+
+  // Fit the steps left by a new focus or filter, or everything once it is cleared
+  const fittedVisibleRef = useRef(visibleNodeIds);
+  useEffect(() => {
+    if (fittedVisibleRef.current === visibleNodeIds || !hasLayout) return;
+    const frame = requestAnimationFrame(() => {
+      fittedVisibleRef.current = visibleNodeIds;
+      fitView({
+        nodes: visibleNodeIds ? Array.from(visibleNodeIds, id => ({ id })) : undefined,
+        padding: 0.3,
+        duration: 300,
+      });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [visibleNodeIds, nodes, hasLayout, fitView]);
+
+  // Centre on the active search result once React Flow has it
+  const centeredMatchRef = useRef<string | undefined>();
+  useEffect(() => {
+    if (!activeMatchId) {
+      centeredMatchRef.current = undefined;
+      return;
+    }
+    if (centeredMatchRef.current === activeMatchId) return;
+    const internal = getInternalNode(activeMatchId);
+    if (!internal) return;
+    centeredMatchRef.current = activeMatchId;
+    const { x, y } = internal.internals.positionAbsolute;
+    setCenter(
+      x + (internal.measured.width ?? NODE_WIDTH) / 2,
+      y + (internal.measured.height ?? NODE_HEIGHT) / 2,
+      { zoom: Math.max(getZoom(), 0.8), duration: 300 }
+    );
+  }, [activeMatchId, nodes, getInternalNode, getZoom, setCenter]);
 
-  const [nodes, , onNodesChange] = useNodesState(initialNodes);
-  const [edges, , onEdgesChange] = useEdgesState(initialEdges);
+  // Follow the newest steps while a run is live
+  useEffect(() => {
+    if (!live || initialNodes.length === 0) return;
+    const frame = requestAnimationFrame(() => fitView({ padding: 0.3, duration: 300 }));
+    return () => cancelAnimationFrame(frame);
+  }, [live, initialNodes.length, fitView]);
 
   const proOptions = { hideAttribution: true };
 
@@ -100,7 +331,9 @@ export function TraceGraph({ trace, onNodeClick, highlightNodeId, hoveredIndex,
         edges={edges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
+        onNodeDragStop={(_event, node) => draggedRef.current.set(node.id, node.position)}
         nodeTypes={nodeTypes}
+        onlyRenderVisibleElements={trace.nodes.length > VIEWPORT_CULLING_THRESHOLD}
         connectionLineType={ConnectionLineType.SmoothStep}
         fitView
         fitViewOptions={{ padding: 0.3 }}
@@ -108,6 +341,29 @@ export function TraceGraph({ trace, onNodeClick, highlightNodeId, hoveredIndex,
         maxZoom={1.5}
         proOptions={proOptions}
       >
+        <Panel position="top-right" className="flex items-center gap-2">
+          {!layout && (
+            <span className="flex items-center gap-1.5 text-xs text-muted-foreground" data-testid="text-graph-layout-pending">
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              Laying out {trace.nodes.length} steps…
+            </span>
+          )}
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={direction}
+            onValueChange={handleDirectionChange}
+            className="rounded-md border border-border bg-background p-0.5 shadow-sm"
+            data-testid="toggle-graph-direction"
+          >
+            <ToggleGroupItem value="TB" aria-label="Top to bottom" title="Top to bottom">
+              <ArrowDown className="h-4 w-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="LR" aria-label="Left to right" title="Left to right">
+              <ArrowRight className="h-4 w-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </Panel>
         <Background 
           variant={BackgroundVariant.Dots} 
           gap={16} 
@@ -120,6 +376,8 @@ export function TraceGraph({ trace, onNodeClick, highlightNodeId, hoveredIndex,
         />
         <MiniMap 
           nodeColor={(node) => {
+            if (node.type === 'langGraphGroup') return 'transparent';
+            if (node.type === 'collapsedSummary') return 'hsl(240, 5%, 70%)';
             const data = node.data as any;
             const nodeType = data?.type || 'other';
             const colors: Record<string, string> = {
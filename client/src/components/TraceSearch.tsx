@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, Search, X } from 'lucide-react';
+import { TraceNode } from '@shared/models';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+
+interface TraceSearchProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  matches: TraceNode[];
+  errors: string[];
+  /** Index into matches of the current result, or -1 */
+  activeIndex: number;
+  onActivate: (index: number) => void;
+}
+
+// Rendering thousands of results makes the palette sluggish
+const MAX_LISTED_MATCHES = 100;
+
+const FILTER_EXAMPLES: Array<{ filter: string; description: string }> = [
+  { filter: 'type:action', description: 'Steps of a type (thought, action, observation, output, system, other)' },
+  { filter: 'tool:search_*', description: 'Tool calls and their results, by tool name or glob' },
+  { filter: 'has:error', description: 'Steps with errors (also has:issue, has:tokens, has:cost, has:langgraph)' },
+  { filter: 'issue:loop', description: 'Steps flagged with an issue type' },
+  { filter: 'duration>3000', description: 'Slower than 3 seconds (also tokens>, cost>, confidence<)' },
+  { filter: '-type:thought', description: 'Prefix any term with - to exclude it' },
+];
+
+export function TraceSearch({ query, onQueryChange, matches, errors, activeIndex, onActivate }: TraceSearchProps) {
+  const [open, setOpen] = useState(false);
+  const hasQuery = query.trim().length > 0;
+
+  const step = (direction: 1 | -1) => {
+    if (matches.length === 0) return;
+    const next = activeIndex === -1
+      ? (direction === 1 ? 0 : matches.length - 1)
+      : (activeIndex + direction + matches.length) % matches.length;
+    onActivate(next);
+  };
+
+  // Cmd/Ctrl+K opens the palette; F3 and Shift+F3 step through results
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setOpen(prev => !prev);
+      } else if (e.key === 'F3') {
+        e.preventDefault();
+        step(e.shiftKey ? -1 : 1);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleSelect = (index: number) => {
+    onActivate(index);
+    setOpen(false);
+  };
+
+  return (
+    <div className="flex min-w-0 items-center gap-2" data-testid="trace-search">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className="w-80 justify-start gap-2 font-normal text-muted-foreground"
+        data-testid="button-open-search"
+      >
+        <Search className="h-4 w-4" />
+        <span className={`flex-1 truncate text-left ${hasQuery ? 'font-mono text-foreground' : ''}`}>
+          {hasQuery ? query : 'Search steps…'}
+        </span>
+        <kbd className="rounded border border-border px-1.5 text-[10px] font-mono">⌘K</kbd>
+      </Button>
+
+      {hasQuery && (
+        <>
+          <Badge variant="secondary" className="font-mono" data-testid="text-search-count">
+            {matches.length === 0
+              ? 'No matches'
+              : `${activeIndex === -1 ? '–' : activeIndex + 1}/${matches.length}`}
+          </Badge>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => step(-1)}
+            disabled={matches.length === 0}
+            title="Previous match (Shift+F3)"
+            data-testid="button-search-previous"
+          >
+            <ChevronUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => step(1)}
+            disabled={matches.length === 0}
+            title="Next match (F3)"
+            data-testid="button-search-next"
+          >
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => onQueryChange('')}
+            title="Clear search"
+            data-testid="button-search-clear"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+
+      {errors.length > 0 && (
+        <span className="truncate text-xs text-destructive" data-testid="text-search-error">{errors[0]}</span>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg">
+          <Command shouldFilter={false}>
+            <CommandInput
+              value={query}
+              onValueChange={onQueryChange}
+              placeholder="Search content, tools, metadata… or filter with type:, tool:, has:, duration>"
+              data-testid="input-search"
+            />
+            <CommandList className="max-h-[400px]">
+              {!hasQuery ? (
+                <CommandGroup heading="Filters">
+                  {FILTER_EXAMPLES.map(({ filter, description }) => (
+                    <CommandItem key={filter} value={filter} onSelect={() => onQueryChange(`${filter} `)}>
+                      <span className="font-mono text-xs w-28 shrink-0">{filter}</span>
+                      <span className="text-xs text-muted-foreground">{description}</span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              ) : (
+                <>
+                  <CommandEmpty>{errors[0] ?? 'No matching steps.'}</CommandEmpty>
+                  {matches.length > 0 && (
+                    <CommandGroup
+                      heading={`${matches.length} match${matches.length === 1 ? '' : 'es'}${
+                        matches.length > MAX_LISTED_MATCHES ? ` (first ${MAX_LISTED_MATCHES} shown)` : ''
+                      }`}
+                    >
+                      {matches.slice(0, MAX_LISTED_MATCHES).map((node, index) => (
+                        <CommandItem
+                          key={node.id}
+                          value={node.id}
+                          onSelect={() => handleSelect(index)}
+                          data-testid={`search-result-${node.id}`}
+                        >
+                          <Badge variant="outline" className="text-[10px] shrink-0">{node.type}</Badge>
+                          <span className="truncate font-mono text-xs">{node.content.split('\n')[0]}</span>
+                        </CommandItem>
+                      ))}
+                    </CommandGroup>
+                  )}
+                </>
+              )}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
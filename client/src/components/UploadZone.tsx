@@ -1,7 +1,16 @@
-import { useState, useRef, useEffect } from 'react';
-import { Upload, FileJson, Sparkles, FlaskConical } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Upload, FileJson, Sparkles, FlaskConical, Radio } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -13,23 +22,58 @@ import {
 import { useToast } from '@/hooks/use-toast';
 import { CustomMappingDialog } from './CustomMappingDialog';
 import { ParseErrorDisplay } from './ParseErrorDisplay';
-import { FieldMapping, ParseResult } from '@shared/models';
-import { GenericAdapter } from '@shared/adapters/generic';
+import { RunPicker } from './RunPicker';
+import { FieldMapping, ParseResult, LiveRunSummary, RunSplit, SplitRun } from '@shared/models';
+import { rankAdapters, parseTrace, listAdapters, getAdapter, splitTraceRuns, GENERIC_ADAPTER_ID } from '@shared/adapters/registry';
+import { parseJsonDocuments } from '@shared/adapters/ndjson';
 import { ALL_SAMPLES } from '@/lib/sample-traces';
 
+const ACCEPTED_EXTENSIONS = ['.json', '.jsonl', '.ndjson', '.log'];
+
+/**
+ * Returns parsed JSON, or the text itself when it holds several documents
+ * (JSONL/NDJSON) so parseTrace can report lines it skipped. Undefined when
+ * nothing in the text parses.
+ */
+function decodeText(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return parseJsonDocuments(text).documents.length > 0 ? text : undefined;
+  }
+}
+
 interface UploadZoneProps {
-  onUpload: (jsonData: any, mapping?: FieldMapping) => void;
+  onUpload: (jsonData: any, mapping?: FieldMapping, adapterId?: string) => void;
   onParseResult?: (result: ParseResult) => void;
+  onWatchRun?: (runId: string) => void;
 }
 
-export function UploadZone({ onUpload, onParseResult }: UploadZoneProps) {
+export function UploadZone({ onUpload, onParseResult, onWatchRun }: UploadZoneProps) {
   const [jsonInput, setJsonInput] = useState('');
   const [isDragging, setIsDragging] = useState(false);
   const [parseError, setParseError] = useState<ParseResult | null>(null);
   const [mapping, setMapping] = useState<FieldMapping>({});
   const [showMappingDialog, setShowMappingDialog] = useState(false);
+  const [adapterChoice, setAdapterChoice] = useState<string>('auto');
+  const [runSplit, setRunSplit] = useState<{ split: RunSplit; jsonData: any } | null>(null);
   const { toast } = useToast();
-  const adapter = useRef(new GenericAdapter());
+
+  // Best-ranked adapter for the pasted JSON, shown next to "Auto-detect"
+  const detected = useMemo(() => {
+    if (!jsonInput.trim()) return null;
+    const data = decodeText(jsonInput);
+    if (data === undefined) return null;
+    const [best] = rankAdapters(data);
+    return best && best.confidence > 0 ? best : null;
+  }, [jsonInput]);
+
+  const liveRuns = useQuery<LiveRunSummary[]>({
+    queryKey: ['/api/runs'],
+    enabled: !!onWatchRun,
+    refetchInterval: 5000,
+  });
+  const openRuns = (liveRuns.data || []).filter(run => run.status === 'open');
 
   useEffect(() => {
     const saved = localStorage.getItem('memento_custom_mapping');
@@ -41,7 +85,25 @@ export function UploadZone({ onUpload, onParseResult }: UploadZoneProps) {
   }, []);
 
   const tryParse = (jsonData: any): boolean => {
-    const result = adapter.current.parse(jsonData, mapping);
+    const adapterId = adapterChoice === 'auto' ? undefined : adapterChoice;
+
+    // Logs that interleave several runs open the run picker instead
+    const split = splitTraceRuns(jsonData, { mapping, adapterId });
+    if (split && split.runs.length > 1) {
+      setParseError(null);
+      setRunSplit({ split, jsonData });
+      return true;
+    }
+
+    return loadTrace(jsonData);
+  };
+
+  const loadTrace = (jsonData: any): boolean => {
+    const result = parseTrace(jsonData, {
+      mapping,
+      adapterId: adapterChoice === 'auto' ? undefined : adapterChoice,
+    });
+    const adapterLabel = getAdapter(result.adapterId || '')?.label || result.adapterId;
     
     if (onParseResult) {
       onParseResult(result);
@@ -60,12 +122,12 @@ export function UploadZone({ onUpload, onParseResult }: UploadZoneProps) {
     } else if (result.detectedFormat) {
       toast({
         title: 'Trace loaded',
-        description: `Detected format: ${result.detectedFormat}${result.arrayPath ? ` (from "${result.arrayPath}")` : ''}`,
+        description: `${adapterLabel} adapter, detected format: ${result.detectedFormat}${result.arrayPath ? ` (from "${result.arrayPath}")` : ''}`,
       });
     }
     
     setParseError(null);
-    onUpload(jsonData, mapping);
+    onUpload(jsonData, mapping, result.adapterId);
     return true;
   };
 
@@ -79,10 +141,10 @@ export function UploadZone({ onUpload, onParseResult }: UploadZoneProps) {
       return;
     }
 
-    try {
-      const parsed = JSON.parse(jsonInput);
+    const parsed = decodeText(jsonInput);
+    if (parsed !== undefined) {
       tryParse(parsed);
-    } catch (error) {
+    } else {
       toast({
         title: "Invalid JSON",
         description: "Please check your JSON syntax and try again",
@@ -96,15 +158,15 @@ export function UploadZone({ onUpload, onParseResult }: UploadZoneProps) {
     setIsDragging(false);
 
     const file = e.dataTransfer.files[0];
-    if (file && (file.type === 'application/json' || file.name.endsWith('.json'))) {
+    if (file && (file.type === 'application/json' || ACCEPTED_EXTENSIONS.some(ext => file.name.endsWith(ext)))) {
       const reader = new FileReader();
       reader.onload = (event) => {
         const text = event.target?.result as string;
         setJsonInput(text);
-        try {
-          const parsed = JSON.parse(text);
+        const parsed = decodeText(text);
+        if (parsed !== undefined) {
           tryParse(parsed);
-        } catch (error) {
+        } else {
           toast({
             title: "Invalid JSON file",
             description: "The file contains invalid JSON",
@@ -116,7 +178,7 @@ export function UploadZone({ onUpload, onParseResult }: UploadZoneProps) {
     } else {
       toast({
         title: "Invalid file type",
-        description: "Please upload a JSON file",
+        description: "Please upload a JSON or JSONL file",
         variant: "destructive"
       });
     }
@@ -137,10 +199,10 @@ export function UploadZone({ onUpload, onParseResult }: UploadZoneProps) {
   const handleMappingChange = (newMapping: FieldMapping) => {
     setMapping(newMapping);
     if (jsonInput.trim() && parseError) {
-      try {
-        const parsed = JSON.parse(jsonInput);
+      const parsed = decodeText(jsonInput);
+      if (parsed !== undefined) {
         tryParse(parsed);
-      } catch {}
+      }
     }
   };
 
@@ -161,6 +223,36 @@ export function UploadZone({ onUpload, onParseResult }: UploadZoneProps) {
     setShowMappingDialog(true);
   };
 
+  const handleRunSelect = (run: SplitRun) => {
+    setRunSplit(null);
+    toast({
+      title: 'Run loaded',
+      description: `${run.runKey}: ${run.trace.nodes.length} nodes`,
+    });
+    // The run payload holds its steps at the top level, so a custom steps path no longer applies
+    onUpload(run.raw, { ...mapping, stepsPath: undefined }, GENERIC_ADAPTER_ID);
+  };
+
+  const handleOpenAllRuns = () => {
+    if (!runSplit) return;
+    const { jsonData } = runSplit;
+    setRunSplit(null);
+    loadTrace(jsonData);
+  };
+
+  if (runSplit) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[600px] px-4 py-8">
+        <RunPicker
+          split={runSplit.split}
+          onSelect={handleRunSelect}
+          onOpenAll={handleOpenAllRuns}
+          onCancel={() => setRunSplit(null)}
+        />
+      </div>
+    );
+  }
+
   if (parseError) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[600px] px-4 py-8">
@@ -227,14 +319,14 @@ export function UploadZone({ onUpload, onParseResult }: UploadZoneProps) {
             </div>
             <div className="text-center space-y-1">
               <p className="text-base font-medium">
-                {isDragging ? 'Drop your file here' : 'Drop JSON file here'}
+                {isDragging ? 'Drop your file here' : 'Drop JSON or JSONL file here'}
               </p>
               <label htmlFor="file-upload" className="text-primary hover:underline cursor-pointer font-medium text-sm inline-block">
                 or browse files
                 <input
                   id="file-upload"
                   type="file"
-                  accept=".json,application/json"
+                  accept=".json,.jsonl,.ndjson,.log,application/json,application/x-ndjson"
                   className="hidden"
                   onChange={handleFileSelect}
                   data-testid="input-file-upload"
@@ -262,6 +354,30 @@ export function UploadZone({ onUpload, onParseResult }: UploadZoneProps) {
             className="font-mono text-sm min-h-[240px] resize-y"
             data-testid="textarea-json-input"
           />
+          <div className="flex items-center gap-3">
+            <Label htmlFor="adapter-select" className="text-sm text-muted-foreground shrink-0">
+              Format
+            </Label>
+            <Select value={adapterChoice} onValueChange={setAdapterChoice}>
+              <SelectTrigger id="adapter-select" className="w-72" data-testid="select-adapter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto" data-testid="adapter-option-auto">
+                  Auto-detect{detected ? ` (${detected.adapter.label})` : ''}
+                </SelectItem>
+                {listAdapters().map((adapter) => (
+                  <SelectItem
+                    key={adapter.id}
+                    value={adapter.id}
+                    data-testid={`adapter-option-${adapter.id}`}
+                  >
+                    {adapter.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           <div className="flex gap-2">
             <Button
               onClick={handleVisualize}
@@ -294,6 +410,40 @@ export function UploadZone({ onUpload, onParseResult }: UploadZoneProps) {
                 ))}
               </DropdownMenuContent>
             </DropdownMenu>
+
+            {onWatchRun && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="lg" data-testid="button-live-runs">
+                    <Radio className="h-4 w-4 mr-2" />
+                    Live
+                    {openRuns.length > 0 && (
+                      <span className="ml-2 font-mono text-xs text-muted-foreground">{openRuns.length}</span>
+                    )}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Watch a Running Agent</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  {openRuns.length === 0 ? (
+                    <DropdownMenuItem disabled>
+                      No open runs. Push steps to /api/runs/:runId/steps
+                    </DropdownMenuItem>
+                  ) : (
+                    openRuns.map((run) => (
+                      <DropdownMenuItem
+                        key={run.runId}
+                        onClick={() => onWatchRun(run.runId)}
+                        data-testid={`live-run-${run.runId}`}
+                      >
+                        <span className="font-mono">{run.runId}</span>
+                        <span className="ml-auto pl-4 text-xs text-muted-foreground">{run.nodeCount} steps</span>
+                      </DropdownMenuItem>
+                    ))
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
             
             <CustomMappingDialog 
               mapping={mapping} 
@@ -0,0 +1,65 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  computeLayout,
+  LayoutDirection,
+  LayoutInput,
+  LayoutPositions,
+  WORKER_LAYOUT_THRESHOLD,
+} from '@/lib/graph-layout';
+
+/**
+ * Lays out trace steps for the graph. Small traces are laid out during
+ * render; larger ones in a web worker so parsing a 5,000-step trace does not
+ * freeze the page. Returns null until the first worker result arrives, and
+ * the previous layout while a newer one is computed.
+ *
+ * @param input - Graph nodes to lay out (see toLayoutInput); memoize it, as a
+ *   new array triggers a new layout
+ * @param direction - 'TB' for top-down, 'LR' for left-to-right
+ */
+export function useGraphLayout(input: LayoutInput[], direction: LayoutDirection): LayoutPositions | null {
+  const offThread = input.length > WORKER_LAYOUT_THRESHOLD && typeof Worker !== 'undefined';
+
+  const inlinePositions = useMemo(
+    () => (offThread ? null : computeLayout(input, { direction })),
+    [input, direction, offThread]
+  );
+
+  const [workerPositions, setWorkerPositions] = useState<LayoutPositions | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    if (!offThread) return;
+
+    if (!workerRef.current) {
+      workerRef.current = new Worker(new URL('../lib/graph-layout.worker.ts', import.meta.url), { type: 'module' });
+    }
+    const worker = workerRef.current;
+    const id = ++requestRef.current;
+
+    const handleMessage = (event: MessageEvent<{ id: number; positions: LayoutPositions }>) => {
+      if (event.data.id === id) setWorkerPositions(event.data.positions);
+    };
+    // A worker that fails to load (e.g. blocked by CSP) should not leave the graph empty
+    const handleError = () => {
+      if (requestRef.current === id) setWorkerPositions(computeLayout(input, { direction }));
+    };
+
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleError);
+    worker.postMessage({ id, nodes: input, options: { direction } });
+
+    return () => {
+      worker.removeEventListener('message', handleMessage);
+      worker.removeEventListener('error', handleError);
+    };
+  }, [input, direction, offThread]);
+
+  useEffect(() => () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  return inlinePositions ?? workerPositions;
+}
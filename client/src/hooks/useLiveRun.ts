@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from 'react';
+import { TraceRun, TraceNode, LiveRunEvent } from '@shared/models';
+import { createIncrementalAnalyzer } from '@shared/analysis/trace-analyzer';
+import { AnalyzerConfig } from '@shared/analysis/rules';
+
+export type LiveRunConnection = 'connecting' | 'open' | 'finished' | 'error';
+
+export interface LiveRunView {
+  trace: TraceRun | null;
+  connection: LiveRunConnection;
+  storedId?: string;
+  finishReason?: 'explicit' | 'timeout';
+}
+
+/**
+ * Subscribes to GET /api/runs/:runId/events and keeps an analyzed TraceRun
+ * up to date as steps arrive. Bursts of events are coalesced into one
+ * re-analysis per animation frame.
+ *
+ * @param runId - Live run to follow, or undefined to stay idle
+ * @param config - Analyzer rules; changing them re-analyzes the nodes received so far
+ */
+export function useLiveRun(runId: string | undefined, config?: AnalyzerConfig): LiveRunView {
+  const [view, setView] = useState<LiveRunView>({ trace: null, connection: 'connecting' });
+  const nodesRef = useRef<TraceNode[]>([]);
+  const configRef = useRef(config);
+  const analyzeRef = useRef(createIncrementalAnalyzer(config));
+
+  // New rules invalidate the cached step labels
+  useEffect(() => {
+    if (configRef.current === config) return;
+    configRef.current = config;
+    analyzeRef.current = createIncrementalAnalyzer(config);
+    if (runId && nodesRef.current.length > 0) {
+      const trace = analyzeRef.current({ id: runId, source: 'live', nodes: [...nodesRef.current] });
+      setView(prev => ({ ...prev, trace }));
+    }
+  }, [runId, config]);
+
+  useEffect(() => {
+    if (!runId) return;
+
+    analyzeRef.current = createIncrementalAnalyzer(configRef.current);
+    let frame: number | null = null;
+    nodesRef.current = [];
+    setView({ trace: null, connection: 'connecting' });
+
+    const flush = () => {
+      frame = null;
+      const trace = analyzeRef.current({ id: runId, source: 'live', nodes: [...nodesRef.current] });
+      setView(prev => ({ ...prev, trace }));
+    };
+
+    const scheduleFlush = () => {
+      if (frame === null) {
+        frame = requestAnimationFrame(flush);
+      }
+    };
+
+    const source = new EventSource(`/api/runs/${encodeURIComponent(runId)}/events`);
+
+    // Sent on every (re)connect with the full node list, so it replaces local state
+    source.addEventListener('snapshot', (e) => {
+      const event = JSON.parse((e as MessageEvent).data) as Extract<LiveRunEvent, { type: 'snapshot' }>;
+      analyzeRef.current = createIncrementalAnalyzer(configRef.current);
+      nodesRef.current = event.nodes;
+      setView(prev => ({
+        ...prev,
+        connection: event.status === 'finished' ? 'finished' : 'open',
+        storedId: event.storedId,
+      }));
+      if (event.status === 'finished') {
+        source.close();
+      }
+      scheduleFlush();
+    });
+
+    source.addEventListener('steps', (e) => {
+      const event = JSON.parse((e as MessageEvent).data) as Extract<LiveRunEvent, { type: 'steps' }>;
+      nodesRef.current = [...nodesRef.current, ...event.nodes];
+      scheduleFlush();
+    });
+
+    source.addEventListener('finished', (e) => {
+      const event = JSON.parse((e as MessageEvent).data) as Extract<LiveRunEvent, { type: 'finished' }>;
+      source.close();
+      setView(prev => ({
+        ...prev,
+        connection: 'finished',
+        storedId: event.storedId,
+        finishReason: event.finishReason,
+      }));
+    });
+
+    // EventSource retries on its own; only a closed source is a hard failure
+    source.onerror = () => {
+      setView(prev => prev.connection === 'finished'
+        ? prev
+        : { ...prev, connection: source.readyState === EventSource.CLOSED ? 'error' : 'connecting' });
+    };
+
+    return () => {
+      source.close();
+      if (frame !== null) {
+        cancelAnimationFrame(frame);
+      }
+    };
+  }, [runId]);
+
+  return runId ? view : { trace: null, connection: 'connecting' };
+}
@@ -0,0 +1,166 @@
+import { RefObject, useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+export interface VirtualItem {
+  index: number;
+  /** Offset of the row from the top of the list */
+  start: number;
+}
+
+export interface VirtualListOptions {
+  count: number;
+  /** The element that scrolls */
+  scrollRef: RefObject<HTMLElement>;
+  /** The element rows are positioned in; may sit below a header inside the scroller */
+  listRef: RefObject<HTMLElement>;
+  /** Height used for rows that have not been measured yet */
+  estimateSize: number;
+  /** Rows rendered above and below the visible ones */
+  overscan?: number;
+}
+
+export interface VirtualList {
+  items: VirtualItem[];
+  totalSize: number;
+  /** Ref callback for each rendered row; the row needs a `data-index` attribute */
+  measureElement: (element: HTMLElement | null) => void;
+  scrollToIndex: (index: number, align?: 'start' | 'center' | 'end') => void;
+}
+
+// First index whose row ends after `offset`
+function findIndex(offsets: Float64Array, count: number, offset: number): number {
+  let low = 0;
+  let high = count - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= offset) low = mid + 1;
+    else high = mid;
+  }
+  return Math.max(0, low);
+}
+
+/**
+ * Windowed rendering for long lists with rows of varying height. Only rows
+ * near the viewport are returned; rows are measured once rendered and the
+ * estimate is used for the rest. When a row above the viewport changes size
+ * the scroll position is adjusted so the visible rows do not jump.
+ */
+export function useVirtualList({ count, scrollRef, listRef, estimateSize, overscan = 6 }: VirtualListOptions): VirtualList {
+  const sizesRef = useRef<number[]>([]);
+  const [version, setVersion] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const frameRef = useRef<number | null>(null);
+
+  const offsets = useMemo(() => {
+    const result = new Float64Array(count + 1);
+    for (let i = 0; i < count; i++) {
+      result[i + 1] = result[i] + (sizesRef.current[i] ?? estimateSize);
+    }
+    return result;
+    // version changes whenever a measured size does
+  }, [count, estimateSize, version]);
+
+  const offsetsRef = useRef(offsets);
+  offsetsRef.current = offsets;
+
+  const readViewport = useCallback(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    const margin = listRef.current?.offsetTop ?? 0;
+    setViewport(prev => {
+      const top = scroller.scrollTop - margin;
+      const height = scroller.clientHeight;
+      return prev.top === top && prev.height === height ? prev : { top, height };
+    });
+  }, [scrollRef, listRef]);
+
+  useLayoutEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    readViewport();
+
+    const onScroll = () => {
+      if (frameRef.current === null) {
+        frameRef.current = requestAnimationFrame(() => {
+          frameRef.current = null;
+          readViewport();
+        });
+      }
+    };
+    const resizeObserver = new ResizeObserver(readViewport);
+    scroller.addEventListener('scroll', onScroll, { passive: true });
+    resizeObserver.observe(scroller);
+
+    return () => {
+      scroller.removeEventListener('scroll', onScroll);
+      resizeObserver.disconnect();
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    };
+  }, [scrollRef, readViewport]);
+
+  // One observer for every rendered row
+  const rowObserver = useMemo(() => {
+    let pending: number | null = null;
+    return new ResizeObserver((entries, observer) => {
+      let changed = false;
+      for (const entry of entries) {
+        const element = entry.target as HTMLElement;
+        // Rows scrolled out of the window are unmounted
+        if (!element.isConnected) {
+          observer.unobserve(element);
+          continue;
+        }
+        const index = Number(element.dataset.index);
+        const size = element.offsetHeight;
+        if (isNaN(index) || sizesRef.current[index] === size) continue;
+
+        const previous = sizesRef.current[index] ?? estimateSize;
+        sizesRef.current[index] = size;
+        changed = true;
+
+        const scroller = scrollRef.current;
+        const margin = listRef.current?.offsetTop ?? 0;
+        if (scroller && offsetsRef.current[index] + margin < scroller.scrollTop) {
+          scroller.scrollTop += size - previous;
+        }
+      }
+      if (changed && pending === null) {
+        pending = requestAnimationFrame(() => {
+          pending = null;
+          setVersion(v => v + 1);
+        });
+      }
+    });
+  }, [estimateSize, scrollRef, listRef]);
+
+  useEffect(() => () => rowObserver.disconnect(), [rowObserver]);
+
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (element) rowObserver.observe(element);
+  }, [rowObserver]);
+
+  const items = useMemo(() => {
+    if (count === 0) return [];
+    const first = findIndex(offsets, count, Math.max(0, viewport.top));
+    const last = findIndex(offsets, count, viewport.top + viewport.height);
+    const result: VirtualItem[] = [];
+    for (let index = Math.max(0, first - overscan); index <= Math.min(count - 1, last + overscan); index++) {
+      result.push({ index, start: offsets[index] });
+    }
+    return result;
+  }, [offsets, count, viewport, overscan]);
+
+  const scrollToIndex = useCallback((index: number, align: 'start' | 'center' | 'end' = 'start') => {
+    const scroller = scrollRef.current;
+    if (!scroller || index < 0 || index >= count) return;
+    const margin = listRef.current?.offsetTop ?? 0;
+    const start = offsetsRef.current[index] + margin;
+    const size = offsetsRef.current[index + 1] - offsetsRef.current[index];
+    const top = align === 'start' ? start
+      : align === 'end' ? start + size - scroller.clientHeight
+      : start + size / 2 - scroller.clientHeight / 2;
+    scroller.scrollTo({ top: Math.max(0, top) });
+  }, [scrollRef, listRef, count]);
+
+  return { items, totalSize: offsets[count], measureElement, scrollToIndex };
+}
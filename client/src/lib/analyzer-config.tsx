@@ -0,0 +1,60 @@
+import { createContext, useContext, useState } from "react";
+import { AnalyzerConfig, parseAnalyzerConfig } from "@shared/analysis/rules";
+
+type AnalyzerConfigProviderProps = {
+  children: React.ReactNode;
+  storageKey?: string;
+};
+
+type AnalyzerConfigProviderState = {
+  config: AnalyzerConfig;
+  setConfig: (config: AnalyzerConfig) => void;
+  resetConfig: () => void;
+};
+
+const AnalyzerConfigContext = createContext<AnalyzerConfigProviderState | undefined>(undefined);
+
+function loadConfig(storageKey: string): AnalyzerConfig {
+  const saved = localStorage.getItem(storageKey);
+  if (!saved) return {};
+  try {
+    // A config saved by an older version may no longer validate; fall back to the defaults
+    return parseAnalyzerConfig(JSON.parse(saved)).config || {};
+  } catch {
+    return {};
+  }
+}
+
+export function AnalyzerConfigProvider({
+  children,
+  storageKey = "memento-analyzer-config",
+}: AnalyzerConfigProviderProps) {
+  const [config, setConfig] = useState<AnalyzerConfig>(() => loadConfig(storageKey));
+
+  const value = {
+    config,
+    setConfig: (config: AnalyzerConfig) => {
+      localStorage.setItem(storageKey, JSON.stringify(config));
+      setConfig(config);
+    },
+    resetConfig: () => {
+      localStorage.removeItem(storageKey);
+      setConfig({});
+    },
+  };
+
+  return (
+    <AnalyzerConfigContext.Provider value={value}>
+      {children}
+    </AnalyzerConfigContext.Provider>
+  );
+}
+
+export const useAnalyzerConfig = () => {
+  const context = useContext(AnalyzerConfigContext);
+
+  if (context === undefined)
+    throw new Error("useAnalyzerConfig must be used within an AnalyzerConfigProvider");
+
+  return context;
+};
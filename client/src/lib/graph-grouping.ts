@@ -0,0 +1,140 @@
+import type { TraceNode } from '@shared/models';
+
+/**
+ * Collapsing and grouping for the trace graph.
+ *
+ * A collapsed step keeps its place and its descendants (by `parentId`) are
+ * replaced with a single summary node. Separately, runs of consecutive
+ * LangGraph steps that share a `langGraphDetails.nodeName` are boxed into a
+ * group so one graph node's thought, tool call and result read as a unit.
+ */
+
+export interface CollapsedSummary {
+  /** Graph node id of the summary, derived from the collapsed step */
+  id: string;
+  /** The collapsed step the summary hangs off */
+  parentId: string;
+  /** Ids of the hidden descendants */
+  nodeIds: string[];
+  totalDurationMs: number;
+  totalTokens: number;
+  issueCount: number;
+  worstSeverity?: 'warning' | 'error';
+}
+
+export interface CollapseResult {
+  visible: TraceNode[];
+  summaries: CollapsedSummary[];
+  /** Number of direct children of each step, for the expand control */
+  childCounts: Map<string, number>;
+  /** Hidden step id to the id of the summary that stands in for it */
+  hiddenBy: Map<string, string>;
+}
+
+export interface LangGraphGroup {
+  id: string;
+  nodeName: string;
+  nodeIds: string[];
+}
+
+export function summaryNodeId(collapsedId: string): string {
+  return `collapsed:${collapsedId}`;
+}
+
+function tokenTotal(node: TraceNode): number {
+  const usage = node.metrics?.tokenUsage;
+  if (!usage) return 0;
+  return usage.total ?? (usage.prompt || 0) + (usage.completion || 0);
+}
+
+/**
+ * Hides the descendants of every collapsed step. A collapsed step inside an
+ * already collapsed subtree is folded into the outer summary.
+ */
+export function collapseSubtrees(nodes: TraceNode[], collapsed: ReadonlySet<string>): CollapseResult {
+  const ids = new Set(nodes.map(node => node.id));
+  const children = new Map<string, string[]>();
+  for (const node of nodes) {
+    if (node.parentId && node.parentId !== node.id && ids.has(node.parentId)) {
+      const list = children.get(node.parentId) || [];
+      list.push(node.id);
+      children.set(node.parentId, list);
+    }
+  }
+
+  const childCounts = new Map<string, number>();
+  children.forEach((list, parentId) => childCounts.set(parentId, list.length));
+
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const hiddenBy = new Map<string, string>();
+  const summaries: CollapsedSummary[] = [];
+
+  // Trace order visits outer steps first in well-formed traces; the hiddenBy
+  // check also covers parents that appear after their children
+  for (const node of nodes) {
+    if (!collapsed.has(node.id) || hiddenBy.has(node.id) || !children.has(node.id)) continue;
+
+    const summaryId = summaryNodeId(node.id);
+    const summary: CollapsedSummary = {
+      id: summaryId,
+      parentId: node.id,
+      nodeIds: [],
+      totalDurationMs: 0,
+      totalTokens: 0,
+      issueCount: 0,
+    };
+
+    const stack = [...children.get(node.id)!];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      const previous = hiddenBy.get(id);
+      if (previous === summaryId || id === node.id) continue;
+      // An inner summary already claimed this subtree; take it over
+      if (previous) {
+        const inner = summaries.findIndex(s => s.id === previous);
+        if (inner !== -1) summaries.splice(inner, 1);
+      }
+      hiddenBy.set(id, summaryId);
+
+      const hidden = byId.get(id)!;
+      summary.nodeIds.push(id);
+      summary.totalDurationMs += hidden.metrics?.durationMs || 0;
+      summary.totalTokens += tokenTotal(hidden);
+      for (const issue of hidden.issues || []) {
+        summary.issueCount++;
+        if (issue.severity === 'error' || !summary.worstSeverity) summary.worstSeverity = issue.severity;
+      }
+      stack.push(...(children.get(id) || []));
+    }
+
+    summaries.push(summary);
+  }
+
+  return {
+    visible: hiddenBy.size === 0 ? nodes : nodes.filter(node => !hiddenBy.has(node.id)),
+    summaries,
+    childCounts,
+    hiddenBy,
+  };
+}
+
+/**
+ * Runs of two or more consecutive steps with the same LangGraph node name.
+ */
+export function groupLangGraphSteps(nodes: TraceNode[]): LangGraphGroup[] {
+  const groups: LangGraphGroup[] = [];
+  let current: LangGraphGroup | null = null;
+
+  for (const node of nodes) {
+    const nodeName = node.langGraphDetails?.nodeName;
+    if (nodeName && current?.nodeName === nodeName) {
+      current.nodeIds.push(node.id);
+      continue;
+    }
+    if (current && current.nodeIds.length > 1) groups.push(current);
+    current = nodeName ? { id: `group:${node.id}`, nodeName, nodeIds: [node.id] } : null;
+  }
+  if (current && current.nodeIds.length > 1) groups.push(current);
+
+  return groups;
+}
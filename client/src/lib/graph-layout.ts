@@ -0,0 +1,206 @@
+import type { TraceNode } from '@shared/models';
+
+/**
+ * Layered layout for the trace graph.
+ *
+ * Steps are ranked by their `parentId` edges (a child sits one rank below or
+ * to the right of its parent) and each subtree is packed against its left
+ * siblings using per-rank contours, so parents stay centred over their
+ * children without overlapping neighbouring branches. Because parent links
+ * form a forest, ordering children depth-first leaves no edge crossings.
+ * Steps without a parent start a new rank after everything placed before
+ * them, which keeps flat traces reading in order.
+ */
+
+export type LayoutDirection = 'TB' | 'LR';
+
+export interface LayoutInput {
+  id: string;
+  parentId?: string | null;
+  /** Siblings sharing a group (usually the tool name) are kept next to each other */
+  group?: string;
+}
+
+export interface LayoutOptions {
+  direction: LayoutDirection;
+  nodeWidth?: number;
+  nodeHeight?: number;
+  /** Space between neighbouring nodes in the same rank */
+  nodeGap?: number;
+  /** Space between ranks */
+  rankGap?: number;
+}
+
+export type LayoutPositions = Record<string, { x: number; y: number }>;
+
+// Rendered node size; CustomTraceNode is capped at 300px wide
+export const NODE_WIDTH = 300;
+export const NODE_HEIGHT = 170;
+
+/** Traces larger than this are laid out in a worker */
+export const WORKER_LAYOUT_THRESHOLD = 300;
+
+interface Contour {
+  left: Map<number, number>;
+  right: Map<number, number>;
+  /** Added to every stored value, so a whole subtree shifts in O(1) */
+  offset: number;
+}
+
+export function toLayoutInput(nodes: TraceNode[]): LayoutInput[] {
+  return nodes.map(node => ({
+    id: node.id,
+    parentId: node.parentId,
+    group: node.metadata?.tool || node.metadata?.tool_name || node.langGraphDetails?.nodeName || undefined,
+  }));
+}
+
+/**
+ * Children of each step in trace order, with siblings of the same group moved
+ * next to the first of them.
+ */
+function buildChildren(nodes: LayoutInput[], ids: Set<string>): { roots: string[]; children: Map<string, string[]> } {
+  const children = new Map<string, LayoutInput[]>();
+  const roots: string[] = [];
+
+  for (const node of nodes) {
+    if (node.parentId && node.parentId !== node.id && ids.has(node.parentId)) {
+      const siblings = children.get(node.parentId) || [];
+      siblings.push(node);
+      children.set(node.parentId, siblings);
+    } else {
+      roots.push(node.id);
+    }
+  }
+
+  const grouped = new Map<string, string[]>();
+  children.forEach((siblings, parentId) => {
+    const firstSeen = new Map<string, number>();
+    siblings.forEach((node, index) => {
+      const key = node.group ?? `#${index}`;
+      if (!firstSeen.has(key)) firstSeen.set(key, index);
+    });
+    const order = siblings
+      .map((node, index) => ({ node, index, rank: firstSeen.get(node.group ?? `#${index}`)! }))
+      .sort((a, b) => a.rank - b.rank || a.index - b.index);
+    grouped.set(parentId, order.map(entry => entry.node.id));
+  });
+
+  return { roots, children: grouped };
+}
+
+/**
+ * Positions of the top-left corner of each node, for React Flow.
+ */
+export function computeLayout(nodes: LayoutInput[], options: LayoutOptions): LayoutPositions {
+  const horizontal = options.direction === 'LR';
+  const nodeWidth = options.nodeWidth ?? NODE_WIDTH;
+  const nodeHeight = options.nodeHeight ?? NODE_HEIGHT;
+  const nodeGap = options.nodeGap ?? (horizontal ? 40 : 50);
+  const rankGap = options.rankGap ?? (horizontal ? 90 : 80);
+  // Breadth of a node across its rank, and depth along the flow
+  const breadth = horizontal ? nodeHeight : nodeWidth;
+  const depth = horizontal ? nodeWidth : nodeHeight;
+
+  const ids = new Set(nodes.map(node => node.id));
+  const { roots, children } = buildChildren(nodes, ids);
+
+  // Ranks and a depth-first (pre-order) walk of every tree. Parent cycles
+  // leave their members unreachable; they are laid out as extra roots.
+  const rank = new Map<string, number>();
+  const preorder: string[] = [];
+  const rootOf = new Map<string, string>();
+  let nextRootRank = 0;
+  const walkTree = (root: string) => {
+    let maxRank = nextRootRank;
+    const stack: Array<[string, number]> = [[root, nextRootRank]];
+    while (stack.length > 0) {
+      const [id, r] = stack.pop()!;
+      rank.set(id, r);
+      rootOf.set(id, root);
+      preorder.push(id);
+      maxRank = Math.max(maxRank, r);
+      const kids = children.get(id) || [];
+      for (let i = kids.length - 1; i >= 0; i--) {
+        if (!rank.has(kids[i])) stack.push([kids[i], r + 1]);
+      }
+    }
+    nextRootRank = maxRank + 1;
+  };
+  roots.forEach(walkTree);
+  nodes.forEach(node => {
+    if (!rank.has(node.id)) {
+      children.set(node.parentId!, (children.get(node.parentId!) || []).filter(id => id !== node.id));
+      walkTree(node.id);
+    }
+  });
+
+  // Post-order pass: pack each child subtree against its left siblings and
+  // centre the parent over its first and last child
+  const contours = new Map<string, Contour>();
+  const relative = new Map<string, number>();
+  const half = breadth / 2;
+
+  for (let i = preorder.length - 1; i >= 0; i--) {
+    const id = preorder[i];
+    const r = rank.get(id)!;
+    const kids = (children.get(id) || []).filter(kid => contours.has(kid));
+
+    if (kids.length === 0) {
+      contours.set(id, { left: new Map([[r, -half]]), right: new Map([[r, half]]), offset: 0 });
+      continue;
+    }
+
+    // The first child's contour becomes the merged contour, in its own frame
+    const merged = contours.get(kids[0])!;
+    contours.delete(kids[0]);
+    const positions = [0];
+
+    for (let k = 1; k < kids.length; k++) {
+      const contour = contours.get(kids[k])!;
+      contours.delete(kids[k]);
+
+      let shift = -Infinity;
+      contour.left.forEach((left, level) => {
+        const right = merged.right.get(level);
+        if (right !== undefined) {
+          shift = Math.max(shift, right + merged.offset - (left + contour.offset) + nodeGap);
+        }
+      });
+      if (shift === -Infinity) shift = positions[k - 1] + breadth + nodeGap;
+      positions.push(shift);
+
+      contour.right.forEach((right, level) => {
+        merged.right.set(level, right + contour.offset + shift - merged.offset);
+        if (!merged.left.has(level)) {
+          merged.left.set(level, contour.left.get(level)! + contour.offset + shift - merged.offset);
+        }
+      });
+    }
+
+    const mid = (positions[0] + positions[positions.length - 1]) / 2;
+    kids.forEach((kid, k) => relative.set(kid, positions[k] - mid));
+    merged.offset -= mid;
+    merged.left.set(r, -half - merged.offset);
+    merged.right.set(r, half - merged.offset);
+    contours.set(id, merged);
+  }
+
+  // Pre-order pass: absolute positions. Every tree is centred on the axis.
+  const cross = new Map<string, number>();
+  const parentOf = new Map<string, string>();
+  children.forEach((kids, parentId) => kids.forEach(kid => parentOf.set(kid, parentId)));
+
+  const positions: LayoutPositions = {};
+  for (const id of preorder) {
+    const parent = rootOf.get(id) === id ? undefined : parentOf.get(id);
+    const center = parent !== undefined ? cross.get(parent)! + (relative.get(id) ?? 0) : 0;
+    cross.set(id, center);
+
+    const along = rank.get(id)! * (depth + rankGap);
+    const across = center - half;
+    positions[id] = horizontal ? { x: along, y: across } : { x: across, y: along };
+  }
+
+  return positions;
+}
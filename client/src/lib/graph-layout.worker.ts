@@ -0,0 +1,12 @@
+import { computeLayout, type LayoutInput, type LayoutOptions } from './graph-layout';
+
+export interface LayoutRequest {
+  id: number;
+  nodes: LayoutInput[];
+  options: LayoutOptions;
+}
+
+self.onmessage = (event: MessageEvent<LayoutRequest>) => {
+  const { id, nodes, options } = event.data;
+  self.postMessage({ id, positions: computeLayout(nodes, options) });
+};
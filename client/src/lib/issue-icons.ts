@@ -0,0 +1,53 @@
+import type { ComponentType } from 'react';
+import {
+  AlertCircle,
+  AlertTriangle,
+  ArrowRightLeft,
+  Ban,
+  Circle,
+  FileQuestion,
+  KeyRound,
+  MessageSquare,
+  MessageSquareOff,
+  Quote,
+  Repeat,
+  ShieldAlert,
+  ShieldX,
+  Sparkles,
+} from 'lucide-react';
+import type { BuiltInIssueType, IssueType } from '@shared/models';
+
+type IssueIcon = ComponentType<{ className?: string }>;
+
+/**
+ * Icons for issue types in the UI. Detector definitions are shared with the
+ * CLI and server, so their icons are registered here rather than on them.
+ */
+const ISSUE_ICONS: Record<BuiltInIssueType, IssueIcon> = {
+  guessing_after_error: Sparkles,
+  commit_after_empty: ShieldAlert,
+  hallucinated_argument: FileQuestion,
+  prompt_injection: ShieldX,
+  unhandled_error: Ban,
+  unsupported_claim: Quote,
+  loop: Repeat,
+  missing_observation: MessageSquareOff,
+  suspicious_transition: ArrowRightLeft,
+  contradiction_candidate: MessageSquare,
+  error_ignored: AlertCircle,
+  empty_result: Circle,
+  sensitive_data: KeyRound,
+};
+
+const customIcons = new Map<IssueType, IssueIcon>();
+
+/**
+ * Sets the icon shown for a custom detector's issue type (e.g. a lucide-react icon).
+ */
+export function registerIssueIcon(type: IssueType, icon: IssueIcon): void {
+  customIcons.set(type, icon);
+}
+
+export function issueIcon(type: IssueType): IssueIcon {
+  return customIcons.get(type) ?? ISSUE_ICONS[type as BuiltInIssueType] ?? AlertTriangle;
+}
@@ -381,11 +381,141 @@ export const SAMPLE_LANGGRAPH_FULL = {
   ]
 };
 
+export const SAMPLE_ANTHROPIC_TRACE = {
+  "model": "claude-sonnet-4-5",
+  "system": "You are a helpful assistant with access to tools.",
+  "messages": [
+    {
+      "role": "user",
+      "content": "What's the weather like and what should I wear?"
+    },
+    {
+      "role": "assistant",
+      "stop_reason": "tool_use",
+      "usage": { "input_tokens": 412, "output_tokens": 96 },
+      "content": [
+        {
+          "type": "thinking",
+          "thinking": "I need the current weather before recommending clothing."
+        },
+        {
+          "type": "tool_use",
+          "id": "toolu_01",
+          "name": "get_weather",
+          "input": { "location": "current" }
+        }
+      ]
+    },
+    {
+      "role": "user",
+      "content": [
+        {
+          "type": "tool_result",
+          "tool_use_id": "toolu_01",
+          "content": "Temperature: 72°F, Sunny, Light breeze"
+        }
+      ]
+    }
+  ],
+  "response": {
+    "id": "msg_01",
+    "type": "message",
+    "role": "assistant",
+    "model": "claude-sonnet-4-5",
+    "stop_reason": "end_turn",
+    "usage": { "input_tokens": 540, "output_tokens": 58 },
+    "content": [
+      {
+        "type": "text",
+        "text": "It's 72°F and sunny with a light breeze. A t-shirt and shorts or a light dress will be comfortable, and bring sunglasses!"
+      }
+    ]
+  }
+};
+
+export const SAMPLE_OTEL_TRACE = {
+  "resourceSpans": [
+    {
+      "resource": {
+        "attributes": [{ "key": "service.name", "value": { "stringValue": "weather-agent" } }]
+      },
+      "scopeSpans": [
+        {
+          "scope": { "name": "weather-agent" },
+          "spans": [
+            {
+              "traceId": "5b8efff798038103d269b633813fc60c",
+              "spanId": "eee19b7ec3c1b174",
+              "name": "invoke_agent weather",
+              "startTimeUnixNano": "1718000000000000000",
+              "endTimeUnixNano": "1718000004200000000",
+              "attributes": [
+                { "key": "gen_ai.operation.name", "value": { "stringValue": "invoke_agent" } },
+                { "key": "gen_ai.agent.name", "value": { "stringValue": "weather" } }
+              ],
+              "status": {}
+            },
+            {
+              "traceId": "5b8efff798038103d269b633813fc60c",
+              "spanId": "eee19b7ec3c1b175",
+              "parentSpanId": "eee19b7ec3c1b174",
+              "name": "chat gpt-4o",
+              "startTimeUnixNano": "1718000000100000000",
+              "endTimeUnixNano": "1718000001300000000",
+              "attributes": [
+                { "key": "gen_ai.operation.name", "value": { "stringValue": "chat" } },
+                { "key": "gen_ai.request.model", "value": { "stringValue": "gpt-4o" } },
+                { "key": "gen_ai.usage.input_tokens", "value": { "intValue": "380" } },
+                { "key": "gen_ai.usage.output_tokens", "value": { "intValue": "42" } },
+                { "key": "gen_ai.response.finish_reasons", "value": { "arrayValue": { "values": [{ "stringValue": "tool_calls" }] } } }
+              ],
+              "status": {}
+            },
+            {
+              "traceId": "5b8efff798038103d269b633813fc60c",
+              "spanId": "eee19b7ec3c1b176",
+              "parentSpanId": "eee19b7ec3c1b174",
+              "name": "execute_tool get_weather",
+              "startTimeUnixNano": "1718000001400000000",
+              "endTimeUnixNano": "1718000002900000000",
+              "attributes": [
+                { "key": "gen_ai.operation.name", "value": { "stringValue": "execute_tool" } },
+                { "key": "gen_ai.tool.name", "value": { "stringValue": "get_weather" } },
+                { "key": "gen_ai.tool.call.arguments", "value": { "stringValue": "{\"location\": \"current\"}" } },
+                { "key": "gen_ai.tool.call.result", "value": { "stringValue": "Temperature: 72°F, Sunny, Light breeze" } }
+              ],
+              "status": {}
+            },
+            {
+              "traceId": "5b8efff798038103d269b633813fc60c",
+              "spanId": "eee19b7ec3c1b177",
+              "parentSpanId": "eee19b7ec3c1b174",
+              "name": "chat gpt-4o",
+              "startTimeUnixNano": "1718000003000000000",
+              "endTimeUnixNano": "1718000004100000000",
+              "attributes": [
+                { "key": "gen_ai.operation.name", "value": { "stringValue": "chat" } },
+                { "key": "gen_ai.request.model", "value": { "stringValue": "gpt-4o" } },
+                { "key": "gen_ai.usage.input_tokens", "value": { "intValue": "455" } },
+                { "key": "gen_ai.usage.output_tokens", "value": { "intValue": "61" } },
+                { "key": "gen_ai.output.messages", "value": { "stringValue": "[{\"role\": \"assistant\", \"parts\": [{\"type\": \"text\", \"content\": \"It's 72°F and sunny. Light clothing and sunglasses are a good call.\"}], \"finish_reason\": \"stop\"}]" } }
+              ],
+              "status": {}
+            }
+          ]
+        }
+      ]
+    }
+  ]
+};
+
 export const ALL_SAMPLES = {
   'LangGraph': SAMPLE_LANGGRAPH_TRACE,
   'LangGraph (Full)': SAMPLE_LANGGRAPH_FULL,
   'LangChain': SAMPLE_LANGCHAIN_TRACE,
   'OpenAI': SAMPLE_OPENAI_TRACE,
+  'Anthropic': SAMPLE_ANTHROPIC_TRACE,
+  'OpenTelemetry GenAI': SAMPLE_OTEL_TRACE,
   'Custom Agent': SAMPLE_CUSTOM_TRACE,
   'Simple Array': SAMPLE_SIMPLE_ARRAY,
   'Flight Booking (Bug)': SAMPLE_FLIGHT_BOOKING_ISSUE,
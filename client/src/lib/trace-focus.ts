@@ -0,0 +1,121 @@
+import type { NodeType, RiskLevel, TraceIssue, TraceNode } from '@shared/models';
+import { hasError } from './trace-search';
+
+/**
+ * Narrowing the graph and timeline to the steps that matter: focusing an
+ * issue keeps its steps, their ancestors and their immediate neighbours, and
+ * filters keep steps by type, risk or metric flags. The views either dim or
+ * hide the rest.
+ */
+
+export type NodeCondition = 'error' | 'slow' | 'tokenHeavy';
+
+export interface NodeFilters {
+  /** Keep only these types; empty keeps all */
+  types: NodeType[];
+  /** Keep only steps with one of these risk levels; empty keeps all */
+  risks: RiskLevel[];
+  /** Keep only steps meeting at least one of these; empty keeps all */
+  conditions: NodeCondition[];
+}
+
+export const EMPTY_NODE_FILTERS: NodeFilters = { types: [], risks: [], conditions: [] };
+
+export function hasActiveFilters(filters: NodeFilters): boolean {
+  return filters.types.length > 0 || filters.risks.length > 0 || filters.conditions.length > 0;
+}
+
+function meetsCondition(node: TraceNode, condition: NodeCondition): boolean {
+  switch (condition) {
+    case 'error':
+      return hasError(node);
+    case 'slow':
+      return !!node.metrics?.isSlow;
+    case 'tokenHeavy':
+      return !!node.metrics?.isTokenHeavy;
+  }
+}
+
+export function matchesFilters(node: TraceNode, filters: NodeFilters): boolean {
+  if (filters.types.length > 0 && !filters.types.includes(node.type)) return false;
+  if (filters.risks.length > 0 && (!node.riskLevel || !filters.risks.includes(node.riskLevel))) return false;
+  if (filters.conditions.length > 0 && !filters.conditions.some(condition => meetsCondition(node, condition))) return false;
+  return true;
+}
+
+/**
+ * An issue's steps, the chain of ancestors above each, and the steps right
+ * around them: their children and their neighbours in trace order.
+ */
+export function issueFocusIds(nodes: TraceNode[], issue: TraceIssue): Set<string> {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const indexById = new Map(nodes.map((node, index) => [node.id, index]));
+  const focus = new Set<string>();
+
+  for (const id of issue.nodeIds) {
+    if (!byId.has(id)) continue;
+    focus.add(id);
+
+    for (let parentId = byId.get(id)?.parentId; parentId && !focus.has(parentId) && byId.has(parentId); parentId = byId.get(parentId)?.parentId) {
+      focus.add(parentId);
+    }
+
+    const index = indexById.get(id)!;
+    if (index > 0) focus.add(nodes[index - 1].id);
+    if (index < nodes.length - 1) focus.add(nodes[index + 1].id);
+  }
+
+  const issueIds = new Set(issue.nodeIds);
+  for (const node of nodes) {
+    if (node.parentId && issueIds.has(node.parentId)) focus.add(node.id);
+  }
+
+  return focus;
+}
+
+/**
+ * Ids of the steps that pass both the focused issue (if any) and the filters,
+ * or undefined when neither is active.
+ */
+export function visibleNodeIds(nodes: TraceNode[], focusedIssue: TraceIssue | null, filters: NodeFilters): Set<string> | undefined {
+  const filtering = hasActiveFilters(filters);
+  if (!focusedIssue && !filtering) return undefined;
+
+  const focus = focusedIssue ? issueFocusIds(nodes, focusedIssue) : undefined;
+  const visible = new Set<string>();
+  for (const node of nodes) {
+    if (focus && !focus.has(node.id)) continue;
+    if (filtering && !matchesFilters(node, filters)) continue;
+    visible.add(node.id);
+  }
+  return visible;
+}
+
+/**
+ * The visible steps, each re-attached to its closest visible ancestor so the
+ * graph keeps its shape when steps in between are hidden.
+ */
+export function restrictToNodes(nodes: TraceNode[], visible: ReadonlySet<string>): TraceNode[] {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+
+  return nodes
+    .filter(node => visible.has(node.id))
+    .map(node => {
+      let parentId = node.parentId;
+      const seen = new Set<string>();
+      while (parentId && !visible.has(parentId) && !seen.has(parentId)) {
+        seen.add(parentId);
+        parentId = byId.get(parentId)?.parentId;
+      }
+      const resolved = parentId && visible.has(parentId) ? parentId : null;
+      return resolved === node.parentId ? node : { ...node, parentId: resolved };
+    });
+}
+
+/**
+ * Whether two issues are the same finding. Issue ids are regenerated on every
+ * analysis, so a focus survives re-analysis by type and steps instead.
+ */
+export function isSameIssue(a: TraceIssue, b: TraceIssue): boolean {
+  return a.type === b.type && a.nodeIds.join() === b.nodeIds.join();
+}
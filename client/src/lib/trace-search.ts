@@ -0,0 +1,227 @@
+import type { NodeType, TraceNode } from '@shared/models';
+import { extractToolName } from '@shared/analysis/trace-analyzer';
+import { globToRegExp } from '@shared/analysis/matching';
+
+/**
+ * Search over the steps of a trace.
+ *
+ * A query is a list of space-separated terms that must all match. Plain
+ * words (or "quoted phrases") are looked up case-insensitively in the
+ * content, tool name, metadata and LangGraph state. Filters narrow by field:
+ *
+ *   type:action,observation   tool:search_*     has:error   issue:loop
+ *   risk:high                 duration>3000     tokens>=500  cost>0.01
+ *
+ * Durations accept `ms`/`s` suffixes and any term can be negated with `-`.
+ */
+
+const NODE_TYPES: NodeType[] = ['thought', 'action', 'observation', 'output', 'system', 'other'];
+
+const HAS_VALUES = ['error', 'issue', 'tokens', 'cost', 'duration', 'langgraph', 'children'] as const;
+
+type NodeTest = (node: TraceNode, context: SearchContext) => boolean;
+
+interface SearchContext {
+  byId: Map<string, TraceNode>;
+  parentIds: Set<string>;
+}
+
+export interface CompiledSearch {
+  test: NodeTest;
+  /** Problems with individual terms; the rest of the query still applies */
+  errors: string[];
+  isEmpty: boolean;
+}
+
+export interface SearchResult {
+  matches: TraceNode[];
+  errors: string[];
+}
+
+// [-][key op]value, where value may be a quoted phrase
+const TERM_PATTERN = /(-?)(?:([a-z]+)(:|>=|<=|>|<|=))?("[^"]*"?|\S+)/gi;
+
+const searchTextCache = new WeakMap<TraceNode, string>();
+
+function searchText(node: TraceNode): string {
+  let text = searchTextCache.get(node);
+  if (text === undefined) {
+    text = [
+      node.content,
+      extractToolName(node),
+      node.metadata !== undefined ? JSON.stringify(node.metadata) : '',
+      node.langGraphDetails !== undefined ? JSON.stringify(node.langGraphDetails) : '',
+    ].join('\n').toLowerCase();
+    searchTextCache.set(node, text);
+  }
+  return text;
+}
+
+/** Tool of the step, or for results the tool of the action they answer */
+function toolOf(node: TraceNode, context: SearchContext): string | undefined {
+  const own = extractToolName(node);
+  if (own || node.type !== 'observation' || !node.parentId) return own;
+  const parent = context.byId.get(node.parentId);
+  return parent?.type === 'action' ? extractToolName(parent) : undefined;
+}
+
+export function hasError(node: TraceNode): boolean {
+  return !!node.metrics?.hasError ||
+    node.metadata?.error === true ||
+    !!node.metadata?.exception ||
+    node.metadata?.status === 'failed' ||
+    node.metadata?.status === 'error';
+}
+
+function tokenTotal(node: TraceNode): number | undefined {
+  const usage = node.metrics?.tokenUsage;
+  if (!usage) return undefined;
+  return usage.total ?? (usage.prompt || 0) + (usage.completion || 0);
+}
+
+function parseNumber(key: string, raw: string): number {
+  const value = raw.toLowerCase().replace(/^\$/, '');
+  if (key === 'duration') {
+    const match = value.match(/^(\d+(?:\.\d+)?)(ms|s|m)?$/);
+    if (!match) return NaN;
+    const scale = match[2] === 's' ? 1000 : match[2] === 'm' ? 60_000 : 1;
+    return Number(match[1]) * scale;
+  }
+  return value.trim() === '' ? NaN : Number(value);
+}
+
+const NUMERIC_FIELDS: Record<string, (node: TraceNode) => number | undefined> = {
+  duration: node => node.metrics?.durationMs,
+  tokens: tokenTotal,
+  cost: node => node.metrics?.costUsd,
+  confidence: node => node.confidence,
+};
+
+function compareWith(op: string, expected: number): (actual: number) => boolean {
+  switch (op) {
+    case '>': return actual => actual > expected;
+    case '>=': return actual => actual >= expected;
+    case '<': return actual => actual < expected;
+    case '<=': return actual => actual <= expected;
+    default: return actual => actual === expected;
+  }
+}
+
+function compileFilter(key: string, op: string, value: string, errors: string[]): NodeTest | null {
+  const values = value.split(',').map(v => v.trim().toLowerCase()).filter(Boolean);
+
+  if (key in NUMERIC_FIELDS) {
+    const expected = parseNumber(key, value);
+    if (op === ':' || isNaN(expected)) {
+      errors.push(`${key} needs a comparison such as ${key}>${key === 'duration' ? '3000' : '100'}`);
+      return null;
+    }
+    const read = NUMERIC_FIELDS[key];
+    const compare = compareWith(op, expected);
+    return node => {
+      const actual = read(node);
+      return actual !== undefined && compare(actual);
+    };
+  }
+
+  if (op !== ':') {
+    errors.push(`Use ${key}:value`);
+    return null;
+  }
+
+  switch (key) {
+    case 'type': {
+      const unknown = values.filter(v => !(NODE_TYPES as string[]).includes(v));
+      if (unknown.length > 0) {
+        errors.push(`Unknown type "${unknown.join(', ')}"; use ${NODE_TYPES.join(', ')}`);
+        return null;
+      }
+      return node => values.includes(node.type);
+    }
+    case 'tool': {
+      const patterns = values.map(v => (v.includes('*') || v.includes('?') ? globToRegExp(v) : null));
+      return (node, context) => {
+        const tool = toolOf(node, context)?.toLowerCase();
+        if (!tool) return false;
+        return values.some((v, i) => (patterns[i] ? patterns[i]!.test(tool) : tool.includes(v)));
+      };
+    }
+    case 'issue':
+      return node => (node.issues || []).some(issue => values.some(v => issue.type.toLowerCase().includes(v)));
+    case 'risk':
+      return node => !!node.riskLevel && values.includes(node.riskLevel);
+    case 'has': {
+      const unknown = values.filter(v => !(HAS_VALUES as readonly string[]).includes(v.replace(/s$/, '')));
+      if (unknown.length > 0) {
+        errors.push(`Unknown has:${unknown.join(',')}; use ${HAS_VALUES.join(', ')}`);
+        return null;
+      }
+      return (node, context) => values.every(v => {
+        switch (v.replace(/s$/, '')) {
+          case 'error': return hasError(node);
+          case 'issue': return (node.issues?.length || 0) > 0;
+          case 'token': return tokenTotal(node) !== undefined;
+          case 'cost': return node.metrics?.costUsd !== undefined;
+          case 'duration': return node.metrics?.durationMs !== undefined;
+          case 'langgraph': return !!node.langGraphDetails;
+          case 'children': return context.parentIds.has(node.id);
+          default: return false;
+        }
+      });
+    }
+    default:
+      return null;
+  }
+}
+
+export function compileSearchQuery(query: string): CompiledSearch {
+  const tests: NodeTest[] = [];
+  const errors: string[] = [];
+
+  for (const match of Array.from(query.matchAll(TERM_PATTERN))) {
+    const [raw, negate, key, op, rawValue] = match;
+    const value = rawValue.replace(/^"|"$/g, '');
+    let test: NodeTest | null = null;
+
+    if (key && op) {
+      const lowerKey = key.toLowerCase();
+      const known = lowerKey in NUMERIC_FIELDS || ['type', 'tool', 'issue', 'risk', 'has'].includes(lowerKey);
+      if (known) {
+        test = compileFilter(lowerKey, op, value, errors);
+        if (!test) continue;
+      }
+    }
+
+    if (!test) {
+      // Unknown keys ("http://...", "note:") are searched as text
+      const text = (key && op ? raw.slice(negate.length) : value).toLowerCase().replace(/^"|"$/g, '');
+      if (!text) continue;
+      test = node => searchText(node).includes(text);
+    }
+
+    const positive = test;
+    tests.push(negate ? (node, context) => !positive(node, context) : positive);
+  }
+
+  return {
+    test: (node, context) => tests.every(test => test(node, context)),
+    errors,
+    isEmpty: tests.length === 0,
+  };
+}
+
+/**
+ * Steps matching the query, in trace order. An empty query matches nothing.
+ */
+export function searchTrace(nodes: TraceNode[], query: string): SearchResult {
+  const compiled = compileSearchQuery(query);
+  if (compiled.isEmpty) {
+    return { matches: [], errors: compiled.errors };
+  }
+
+  const context: SearchContext = {
+    byId: new Map(nodes.map(node => [node.id, node])),
+    parentIds: new Set(nodes.map(node => node.parentId).filter((id): id is string => !!id)),
+  };
+  return { matches: nodes.filter(node => compiled.test(node, context)), errors: compiled.errors };
+}
@@ -1,9 +1,12 @@
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { useParams, useSearch, useLocation } from 'wouter';
+import { useQuery, useMutation } from '@tanstack/react-query';
 import { ReactFlowProvider } from '@xyflow/react';
-import { Network, List, RotateCcw, GitCompare } from 'lucide-react';
-import { TraceRun, TraceNode, FieldMapping } from '@shared/models';
-import { GenericAdapter } from '@shared/adapters/generic';
+import { Network, List, RotateCcw, GitCompare, Link2, Loader2, ExternalLink, ChevronDown, EyeOff, Crosshair, X } from 'lucide-react';
+import { TraceRun, TraceNode, TraceIssue, FieldMapping, StoredTraceResponse } from '@shared/models';
+import { normalizeTrace } from '@shared/adapters/registry';
 import { analyzeTrace } from '@shared/analysis/trace-analyzer';
+import { AnalyzerConfig } from '@shared/analysis/rules';
 import { UploadZone } from '@/components/UploadZone';
 import { TraceGraph } from '@/components/TraceGraph';
 import { TimelineView } from '@/components/TimelineView';
@@ -13,35 +16,211 @@ import { ThemeToggle } from '@/components/ThemeToggle';
 import { IssueSummary } from '@/components/IssueSummary';
 import { ReplayController } from '@/components/ReplayController';
 import { CompareView } from '@/components/CompareView';
+import { AnalyzerSettings } from '@/components/AnalyzerSettings';
+import { TraceSearch } from '@/components/TraceSearch';
+import { NodeFilterPanel } from '@/components/NodeFilterPanel';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useLiveRun } from '@/hooks/useLiveRun';
+import { useAnalyzerConfig } from '@/lib/analyzer-config';
+import { searchTrace } from '@/lib/trace-search';
+import { EMPTY_NODE_FILTERS, NodeFilters, visibleNodeIds } from '@/lib/trace-focus';
+
+type ViewMode = 'graph' | 'timeline';
+
+/**
+ * Builds the permalink for a stored trace, e.g. /trace/abc?node=step-3&view=timeline
+ */
+function buildTracePath(storedId: string, nodeId?: string | null, view?: ViewMode): string {
+  const params = new URLSearchParams();
+  if (nodeId) params.set('node', nodeId);
+  if (view && view !== 'graph') params.set('view', view);
+  const query = params.toString();
+  return `/trace/${encodeURIComponent(storedId)}${query ? `?${query}` : ''}`;
+}
 
 export default function Home() {
+  const { id: storedId, runId } = useParams<{ id?: string; runId?: string }>();
+  const search = useSearch();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
   const [trace, setTrace] = useState<TraceRun | null>(null);
   const [selectedNode, setSelectedNode] = useState<TraceNode | null>(null);
-  const [viewMode, setViewMode] = useState<'graph' | 'timeline'>('graph');
+  const [viewMode, setViewMode] = useState<ViewMode>('graph');
   const [showIssueSummary, setShowIssueSummary] = useState(true);
   const [replayMode, setReplayMode] = useState(false);
   const [replayIndex, setReplayIndex] = useState(0);
   const [compareMode, setCompareMode] = useState(false);
+  const [upload, setUpload] = useState<{ raw: any; mapping?: FieldMapping; adapter?: string } | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [activeMatchIndex, setActiveMatchIndex] = useState(-1);
+  const [focusedIssue, setFocusedIssue] = useState<TraceIssue | null>(null);
+  const [nodeFilters, setNodeFilters] = useState<NodeFilters>(EMPTY_NODE_FILTERS);
+  const [hideFiltered, setHideFiltered] = useState(false);
   const graphRef = useRef<HTMLDivElement>(null);
+  const { config: analyzerConfig } = useAnalyzerConfig();
+
+  const storedTrace = useQuery<StoredTraceResponse>({
+    queryKey: ['/api/traces', storedId],
+    enabled: !!storedId,
+  });
+
+  const liveRun = useLiveRun(runId, analyzerConfig);
+  const isLive = !!runId && liveRun.connection !== 'finished';
+
+  // Follow the live run; keep the inspected node pointing at its latest analysis
+  useEffect(() => {
+    if (!runId || !liveRun.trace) return;
+    const live = liveRun.trace;
+    setTrace(live);
+    setSelectedNode(prev => prev ? live.nodes.find(n => n.id === prev.id) || prev : null);
+  }, [runId, liveRun.trace]);
+
+  // Open a stored trace and apply ?node=<id>&view=<mode> from the permalink
+  useEffect(() => {
+    if (!storedTrace.data) return;
+
+    const params = new URLSearchParams(search);
+    const loaded = storedTrace.data.trace;
+    const nodeId = params.get('node');
+    const view = params.get('view');
+
+    setTrace(loaded);
+    setSelectedNode(nodeId ? loaded.nodes.find(n => n.id === nodeId) || null : null);
+    setViewMode(view === 'timeline' ? 'timeline' : 'graph');
+    setShowIssueSummary(true);
+    setFocusedIssue(null);
+    // Only re-run when a different trace is loaded; later URL updates come from this page
+  }, [storedTrace.data]);
+
+  // Re-analyze the open trace when the analyzer rules change (live runs re-analyze in useLiveRun)
+  const appliedConfigRef = useRef(analyzerConfig);
+  useEffect(() => {
+    if (appliedConfigRef.current === analyzerConfig) return;
+    appliedConfigRef.current = analyzerConfig;
+    if (runId || !trace) return;
+    const analyzed = analyzeTrace(trace, analyzerConfig);
+    setTrace(analyzed);
+    setSelectedNode(prev => prev ? analyzed.nodes.find(n => n.id === prev.id) || null : null);
+    // Only a rules change triggers this; new traces are analyzed as they load
+  }, [analyzerConfig]);
+
+  const searchResult = useMemo(() => searchTrace(trace?.nodes || [], searchQuery), [trace, searchQuery]);
+  const searchMatchIds = useMemo(
+    () => (searchQuery.trim() ? new Set(searchResult.matches.map(node => node.id)) : undefined),
+    [searchQuery, searchResult]
+  );
+  const activeMatchId = searchResult.matches[activeMatchIndex]?.id;
+
+  const handleSearchQueryChange = (query: string) => {
+    setSearchQuery(query);
+    setActiveMatchIndex(-1);
+  };
+
+  const handleActivateMatch = (index: number) => {
+    setActiveMatchIndex(index);
+    const node = searchResult.matches[index];
+    if (node) setSelectedNode(node);
+  };
+
+  const visibleIds = useMemo(
+    () => (trace ? visibleNodeIds(trace.nodes, focusedIssue, nodeFilters) : undefined),
+    [trace, focusedIssue, nodeFilters]
+  );
+
+  // Focusing an issue also opens its first step in the inspector
+  const handleIssueFocus = (issue: TraceIssue | null) => {
+    setFocusedIssue(issue);
+    const node = issue && trace?.nodes.find(n => n.id === issue.nodeIds[0]);
+    if (node) setSelectedNode(node);
+  };
+
+  // Keep the permalink in sync with the current selection so the URL can be copied as-is
+  useEffect(() => {
+    if (!storedId || !trace) return;
+    navigate(buildTracePath(storedId, selectedNode?.id, viewMode), { replace: true });
+  }, [storedId, trace, selectedNode, viewMode, navigate]);
+
+  const shareMutation = useMutation({
+    mutationFn: async (payload: { raw: any; mapping?: FieldMapping; adapter?: string; rules?: AnalyzerConfig; redact?: boolean }) => {
+      const res = await apiRequest('POST', '/api/traces', payload);
+      return (await res.json()) as StoredTraceResponse;
+    },
+  });
+
+  const copyLink = async (path: string) => {
+    const url = `${window.location.origin}${path}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: 'Link copied',
+        description: url,
+      });
+    } catch {
+      toast({
+        title: 'Share link',
+        description: url,
+      });
+    }
+  };
 
-  const adapter = new GenericAdapter();
+  // redact: the server swaps secrets and personal data for placeholders before storing
+  const handleShare = async (redact = false) => {
+    const savedId = storedId || liveRun.storedId;
+    if (savedId) {
+      await copyLink(buildTracePath(savedId, selectedNode?.id, viewMode));
+      return;
+    }
+    if (!upload) return;
+
+    try {
+      const stored = await shareMutation.mutateAsync({ ...upload, rules: analyzerConfig, redact });
+      const path = buildTracePath(stored.id, selectedNode?.id, viewMode);
+      navigate(path, { replace: true });
+      await copyLink(path);
+    } catch (error) {
+      toast({
+        title: 'Failed to share trace',
+        description: error instanceof Error ? error.message : 'Could not save the trace on the server',
+        variant: 'destructive',
+      });
+    }
+  };
 
-  const handleUpload = (jsonData: any, mapping?: FieldMapping) => {
-    const normalized = adapter.normalize(jsonData, mapping);
-    const analyzed = analyzeTrace(normalized);
+  const handleUpload = (jsonData: any, mapping?: FieldMapping, adapterId?: string) => {
+    const normalized = normalizeTrace(jsonData, { mapping, adapterId });
+    const analyzed = analyzeTrace(normalized, analyzerConfig);
     setTrace(analyzed);
+    setUpload({ raw: jsonData, mapping, adapter: adapterId });
     setSelectedNode(null);
     setShowIssueSummary(true);
+    setFocusedIssue(null);
   };
 
   const handleReset = () => {
     setTrace(null);
+    setUpload(null);
     setSelectedNode(null);
     setReplayMode(false);
     setReplayIndex(0);
     setCompareMode(false);
+    setSearchQuery('');
+    setActiveMatchIndex(-1);
+    setFocusedIssue(null);
+    setNodeFilters(EMPTY_NODE_FILTERS);
+    if (storedId || runId) {
+      navigate('/');
+    }
   };
 
   const handleReplayNodeSelect = useCallback((node: TraceNode) => {
@@ -86,6 +265,18 @@ export default function Home() {
               <span>nodes</span>
             </div>
           )}
+          {runId && !compareMode && (
+            <Badge
+              variant={isLive ? 'default' : 'secondary'}
+              className="ml-2 gap-1.5"
+              data-testid="badge-live-status"
+            >
+              {isLive && <span className="h-2 w-2 rounded-full bg-current animate-pulse" />}
+              {liveRun.connection === 'finished'
+                ? liveRun.finishReason === 'timeout' ? 'Finished (idle)' : 'Finished'
+                : liveRun.connection === 'open' ? 'Live' : 'Reconnecting'}
+            </Badge>
+          )}
           {compareMode && (
             <div className="flex items-center gap-1 ml-4 text-sm text-muted-foreground">
               <span>Compare Mode</span>
@@ -96,7 +287,7 @@ export default function Home() {
         <div className="flex items-center gap-2">
           {(trace || compareMode) && (
             <>
-              <Tabs value={viewMode} onValueChange={(v) => setViewMode(v as 'graph' | 'timeline')}>
+              <Tabs value={viewMode} onValueChange={(v) => setViewMode(v as ViewMode)}>
                 <TabsList>
                   <TabsTrigger value="graph" data-testid="tab-graph">
                     <Network className="h-4 w-4 mr-2" />
@@ -133,6 +324,63 @@ export default function Home() {
               
               {!compareMode && <ExportDialog elementRef={graphRef} />}
               
+              {runId && liveRun.storedId && !compareMode && (
+                <Button
+                  variant="outline"
+                  onClick={() => navigate(buildTracePath(liveRun.storedId!, selectedNode?.id, viewMode))}
+                  data-testid="button-open-saved-run"
+                >
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  Open Saved
+                </Button>
+              )}
+
+              {!compareMode && trace && (storedId || liveRun.storedId) && (
+                <Button
+                  variant="outline"
+                  onClick={() => handleShare()}
+                  data-testid="button-share"
+                >
+                  <Link2 className="h-4 w-4 mr-2" />
+                  Share
+                </Button>
+              )}
+
+              {!compareMode && trace && !storedId && !liveRun.storedId && upload && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="outline"
+                      disabled={shareMutation.isPending}
+                      data-testid="button-share"
+                    >
+                      {shareMutation.isPending ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Link2 className="h-4 w-4 mr-2" />
+                      )}
+                      Share
+                      <ChevronDown className="h-3 w-3 ml-1" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => handleShare()} data-testid="menu-share">
+                      <Link2 className="h-4 w-4 mr-2" />
+                      Share as is
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleShare(true)} data-testid="menu-share-redacted">
+                      <EyeOff className="h-4 w-4 mr-2" />
+                      Share redacted
+                      {!!trace.issueSummary?.sensitive_data && (
+                        <Badge variant="secondary" className="ml-2">
+                          {trace.issueSummary.sensitive_data}
+                        </Badge>
+                      )}
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              
               <Button 
                 variant="outline" 
                 onClick={handleReset}
@@ -142,6 +390,7 @@ export default function Home() {
               </Button>
             </>
           )}
+          <AnalyzerSettings />
           <ThemeToggle />
         </div>
       </header>
@@ -149,8 +398,44 @@ export default function Home() {
       <main className="flex-1 overflow-hidden relative flex flex-col">
         {compareMode ? (
           <CompareView viewMode={viewMode} />
+        ) : storedId && !trace ? (
+          <div className="flex flex-col items-center justify-center flex-1 gap-4 text-muted-foreground" data-testid="stored-trace-status">
+            {storedTrace.isError ? (
+              <>
+                <p className="text-sm">
+                  {storedTrace.error instanceof Error && storedTrace.error.message.startsWith('404')
+                    ? 'This trace does not exist or has been deleted.'
+                    : 'Failed to load the shared trace.'}
+                </p>
+                <Button variant="outline" onClick={handleReset} data-testid="button-stored-trace-back">
+                  Load a new trace
+                </Button>
+              </>
+            ) : (
+              <>
+                <Loader2 className="h-6 w-6 animate-spin" />
+                <p className="text-sm">Loading shared trace...</p>
+              </>
+            )}
+          </div>
+        ) : runId && (!trace || trace.nodes.length === 0) ? (
+          <div className="flex flex-col items-center justify-center flex-1 gap-4 text-muted-foreground" data-testid="live-run-status">
+            {liveRun.connection === 'error' ? (
+              <p className="text-sm">Lost connection to the server.</p>
+            ) : (
+              <>
+                <Loader2 className="h-6 w-6 animate-spin" />
+                <p className="text-sm">
+                  Waiting for steps from run <span className="font-mono">{runId}</span>...
+                </p>
+              </>
+            )}
+            <Button variant="outline" onClick={handleReset} data-testid="button-live-run-back">
+              Load a new trace
+            </Button>
+          </div>
         ) : !trace ? (
-          <UploadZone onUpload={handleUpload} />
+          <UploadZone onUpload={handleUpload} onWatchRun={(id) => navigate(`/runs/${encodeURIComponent(id)}`)} />
         ) : (
           <>
             {replayMode && (
@@ -161,17 +446,65 @@ export default function Home() {
                 onNodeSelect={handleReplayNodeSelect}
               />
             )}
-            <div ref={graphRef} className="flex-1 w-full">
+            <div className="flex items-center gap-2 border-b border-border px-4 py-2">
+              <TraceSearch
+                query={searchQuery}
+                onQueryChange={handleSearchQueryChange}
+                matches={searchResult.matches}
+                errors={searchResult.errors}
+                activeIndex={activeMatchIndex}
+                onActivate={handleActivateMatch}
+              />
+              <NodeFilterPanel
+                filters={nodeFilters}
+                onFiltersChange={setNodeFilters}
+                hideFiltered={hideFiltered}
+                onHideFilteredChange={setHideFiltered}
+              />
+              {focusedIssue && (
+                <Badge variant="secondary" className="gap-1.5 max-w-xs" data-testid="badge-focused-issue">
+                  <Crosshair className="h-3 w-3 shrink-0" />
+                  <span className="truncate">{focusedIssue.title}</span>
+                  <button
+                    type="button"
+                    onClick={() => setFocusedIssue(null)}
+                    title="Show all steps"
+                    data-testid="button-clear-focus"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              )}
+              {visibleIds && (
+                <span className="text-xs text-muted-foreground whitespace-nowrap" data-testid="text-visible-count">
+                  {visibleIds.size} of {trace.nodes.length} steps
+                </span>
+              )}
+            </div>
+            <div ref={graphRef} className="flex-1 w-full min-h-0">
               {viewMode === 'graph' ? (
                 <ReactFlowProvider>
                   <TraceGraph 
                     trace={trace} 
                     onNodeClick={setSelectedNode}
                     highlightNodeId={replayMode ? trace.nodes[replayIndex]?.id : undefined}
+                    matchNodeIds={searchMatchIds}
+                    activeMatchId={activeMatchId}
+                    visibleNodeIds={visibleIds}
+                    hideFiltered={hideFiltered}
+                    live={isLive}
                   />
                 </ReactFlowProvider>
               ) : (
-                <TimelineView trace={trace} onNodeClick={setSelectedNode} />
+                <TimelineView
+                  trace={trace}
+                  onNodeClick={setSelectedNode}
+                  matchNodeIds={searchMatchIds}
+                  activeMatchId={activeMatchId}
+                  visibleNodeIds={visibleIds}
+                  hideFiltered={hideFiltered}
+                  live={isLive}
+                />
               )}
             </div>
           </>
@@ -182,6 +515,8 @@ export default function Home() {
             <IssueSummary 
               trace={trace} 
               onClose={() => setShowIssueSummary(false)}
+              focusedIssue={focusedIssue}
+              onIssueFocus={handleIssueFocus}
             />
           </div>
         )}
@@ -28,6 +28,8 @@ declare module 'http' {
   }
 }
 app.use(express.json({
+  // agent traces routinely run to several megabytes
+  limit: "50mb",
   verify: (req, _res, buf) => {
     req.rawBody = buf;
   }
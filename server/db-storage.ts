@@ -0,0 +1,228 @@
+import { asc, desc, eq, sql } from "drizzle-orm";
+import {
+  users,
+  traceRuns,
+  traceNodes,
+  traceIssues,
+  type User,
+  type InsertUser,
+  type TraceNodeRow,
+  type InsertTraceNodeRow,
+  type TraceIssueRow,
+  type InsertTraceIssueRow,
+} from "@shared/schema";
+import {
+  type StoredTrace,
+  type InsertStoredTrace,
+  type TraceSummary,
+  type TraceNode,
+  type TraceIssue,
+} from "@shared/models";
+import type { IStorage } from "./storage";
+import type { Database } from "./db";
+
+// Keeps multi-row inserts well below Postgres' 65535 bind parameter limit.
+const INSERT_CHUNK_SIZE = 500;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function toNodeRow(runId: string, node: TraceNode, position: number): InsertTraceNodeRow {
+  return {
+    runId,
+    position,
+    id: node.id,
+    type: node.type,
+    content: node.content,
+    timestamp: node.timestamp ?? null,
+    confidence: node.confidence ?? null,
+    parentId: node.parentId ?? null,
+    order: node.order ?? null,
+    metadata: node.metadata ?? null,
+    riskLevel: node.riskLevel ?? null,
+    langGraphDetails: node.langGraphDetails ?? null,
+    metrics: node.metrics ?? null,
+  };
+}
+
+function fromNodeRow(row: TraceNodeRow, issues: TraceIssue[]): TraceNode {
+  return {
+    id: row.id,
+    type: row.type,
+    content: row.content,
+    timestamp: row.timestamp ?? undefined,
+    confidence: row.confidence ?? undefined,
+    parentId: row.parentId,
+    order: row.order ?? undefined,
+    metadata: row.metadata ?? undefined,
+    issues,
+    riskLevel: row.riskLevel ?? undefined,
+    langGraphDetails: row.langGraphDetails ?? undefined,
+    metrics: row.metrics ?? undefined,
+  };
+}
+
+function toIssueRow(runId: string, issue: TraceIssue, position: number): InsertTraceIssueRow {
+  return {
+    runId,
+    position,
+    id: issue.id,
+    type: issue.type,
+    severity: issue.severity,
+    nodeIds: issue.nodeIds,
+    title: issue.title,
+    description: issue.description,
+    suggestion: issue.suggestion,
+    evidence: issue.evidence ?? null,
+  };
+}
+
+function fromIssueRow(row: TraceIssueRow): TraceIssue {
+  return {
+    id: row.id,
+    type: row.type,
+    severity: row.severity,
+    nodeIds: row.nodeIds,
+    title: row.title,
+    description: row.description,
+    suggestion: row.suggestion,
+    evidence: row.evidence ?? undefined,
+  };
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async createTrace(insertTrace: InsertStoredTrace): Promise<StoredTrace> {
+    const { raw, trace } = insertTrace;
+
+    return this.db.transaction(async (tx) => {
+      const [run] = await tx
+        .insert(traceRuns)
+        .values({
+          traceId: trace.id,
+          source: trace.source ?? null,
+          raw,
+          riskLevel: trace.riskLevel ?? null,
+          riskExplanation: trace.riskExplanation ?? null,
+          issueSummary: trace.issueSummary ?? null,
+          stats: trace.stats ?? null,
+        })
+        .returning();
+
+      const nodeRows = trace.nodes.map((node, index) => toNodeRow(run.id, node, index));
+      for (const rows of chunk(nodeRows, INSERT_CHUNK_SIZE)) {
+        await tx.insert(traceNodes).values(rows);
+      }
+
+      const issueRows = (trace.issues || []).map((issue, index) => toIssueRow(run.id, issue, index));
+      for (const rows of chunk(issueRows, INSERT_CHUNK_SIZE)) {
+        await tx.insert(traceIssues).values(rows);
+      }
+
+      return { id: run.id, raw, trace, createdAt: run.createdAt.getTime() };
+    });
+  }
+
+  async getTrace(id: string): Promise<StoredTrace | undefined> {
+    const [run] = await this.db.select().from(traceRuns).where(eq(traceRuns.id, id));
+    if (!run) return undefined;
+
+    const [nodeRows, issueRows] = await Promise.all([
+      this.db
+        .select()
+        .from(traceNodes)
+        .where(eq(traceNodes.runId, id))
+        .orderBy(asc(traceNodes.position)),
+      this.db
+        .select()
+        .from(traceIssues)
+        .where(eq(traceIssues.runId, id))
+        .orderBy(asc(traceIssues.position)),
+    ]);
+
+    const issues = issueRows.map(fromIssueRow);
+
+    // Re-attach issues to nodes the same way analyzeTrace does
+    const nodeIssueMap = new Map<string, TraceIssue[]>();
+    for (const issue of issues) {
+      for (const nodeId of issue.nodeIds) {
+        const existing = nodeIssueMap.get(nodeId) || [];
+        existing.push(issue);
+        nodeIssueMap.set(nodeId, existing);
+      }
+    }
+
+    return {
+      id: run.id,
+      raw: run.raw,
+      createdAt: run.createdAt.getTime(),
+      trace: {
+        id: run.traceId,
+        source: run.source ?? undefined,
+        nodes: nodeRows.map((row) => fromNodeRow(row, nodeIssueMap.get(row.id) || [])),
+        issues,
+        riskLevel: run.riskLevel ?? undefined,
+        riskExplanation: run.riskExplanation ?? undefined,
+        issueSummary: run.issueSummary ?? undefined,
+        stats: run.stats ?? undefined,
+      },
+    };
+  }
+
+  async listTraces(): Promise<TraceSummary[]> {
+    const rows = await this.db
+      .select({
+        id: traceRuns.id,
+        traceId: traceRuns.traceId,
+        source: traceRuns.source,
+        riskLevel: traceRuns.riskLevel,
+        createdAt: traceRuns.createdAt,
+        nodeCount: sql<number>`(select count(*) from ${traceNodes} where ${traceNodes}.run_id = ${traceRuns}.id)`.mapWith(Number),
+        issueCount: sql<number>`(select count(*) from ${traceIssues} where ${traceIssues}.run_id = ${traceRuns}.id)`.mapWith(Number),
+      })
+      .from(traceRuns)
+      .orderBy(desc(traceRuns.createdAt));
+
+    return rows.map((row) => ({
+      id: row.id,
+      traceId: row.traceId,
+      source: row.source ?? undefined,
+      nodeCount: row.nodeCount,
+      riskLevel: row.riskLevel ?? undefined,
+      issueCount: row.issueCount,
+      createdAt: row.createdAt.getTime(),
+    }));
+  }
+
+  async deleteTrace(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(traceRuns)
+      .where(eq(traceRuns.id, id))
+      .returning({ id: traceRuns.id });
+    return deleted.length > 0;
+  }
+}
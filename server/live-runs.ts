@@ -0,0 +1,228 @@
+import { EventEmitter } from "events";
+import { GenericAdapter } from "@shared/adapters/generic";
+import { analyzeTrace } from "@shared/analysis/trace-analyzer";
+import type {
+  FieldMapping,
+  LiveRunEvent,
+  LiveRunState,
+  LiveRunStatus,
+  LiveRunSummary,
+  TraceNode,
+} from "@shared/models";
+import { log } from "./app";
+import { storage, type IStorage } from "./storage";
+
+// Runs with no new steps for this long are finished automatically
+const IDLE_TIMEOUT_MS = parseInt(process.env.LIVE_RUN_IDLE_TIMEOUT_MS || "300000", 10);
+// Finished runs stay addressable by runId for a while so clients can follow them to storage
+const FINISHED_RETENTION_MS = 10 * 60 * 1000;
+
+interface LiveRun {
+  runId: string;
+  status: LiveRunStatus;
+  rawSteps: any[];
+  nodes: TraceNode[];
+  warnings: string[];
+  mapping?: FieldMapping;
+  createdAt: number;
+  updatedAt: number;
+  finishedAt?: number;
+  finishReason?: "explicit" | "timeout";
+  storedId?: string;
+  timer?: NodeJS.Timeout;
+  /** Set while the finished run is being saved */
+  finishing?: Promise<LiveRunState>;
+}
+
+/**
+ * Accumulates steps pushed by running agents into TraceRuns.
+ * Steps go through the same GenericAdapter expansion and type detection as
+ * pasted JSON; a run stays open until finish() or the idle timeout, at which
+ * point it is analyzed and persisted through IStorage.
+ * Subscribers receive each batch of new nodes as it arrives.
+ */
+export class LiveRunManager {
+  private runs = new Map<string, LiveRun>();
+  private adapter = new GenericAdapter();
+  private events = new EventEmitter();
+
+  constructor(private store: IStorage) {
+    // One listener per open event stream
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Listens for events on a run. Runs that have not received any steps yet
+   * can be subscribed to as well; they start streaming once the agent pushes.
+   * Returns the unsubscribe function.
+   */
+  subscribe(runId: string, listener: (event: LiveRunEvent) => void): () => void {
+    this.events.on(runId, listener);
+    return () => {
+      this.events.off(runId, listener);
+    };
+  }
+
+  snapshot(runId: string): LiveRunEvent {
+    const run = this.runs.get(runId);
+    return {
+      type: "snapshot",
+      runId,
+      status: run?.status ?? "open",
+      nodes: run?.nodes ?? [],
+      storedId: run?.storedId,
+    };
+  }
+
+  /** Finished, or being saved; either way it takes no more steps */
+  isFinished(runId: string): boolean {
+    const run = this.runs.get(runId);
+    return run?.status === "finished" || !!run?.finishing;
+  }
+
+  get(runId: string): LiveRunState | undefined {
+    const run = this.runs.get(runId);
+    return run ? this.toState(run) : undefined;
+  }
+
+  list(): LiveRunSummary[] {
+    return Array.from(this.runs.values())
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map((run) => ({
+        runId: run.runId,
+        status: run.status,
+        nodeCount: run.nodes.length,
+        createdAt: run.createdAt,
+        updatedAt: run.updatedAt,
+        storedId: run.storedId,
+      }));
+  }
+
+  append(
+    runId: string,
+    steps: any[],
+    mapping?: FieldMapping,
+  ): { added: TraceNode[]; warnings: string[] } {
+    let run = this.runs.get(runId);
+    if (!run) {
+      const now = Date.now();
+      run = {
+        runId,
+        status: "open",
+        rawSteps: [],
+        nodes: [],
+        warnings: [],
+        mapping,
+        createdAt: now,
+        updatedAt: now,
+      };
+    }
+
+    if (run.status === "finished" || run.finishing) {
+      throw new Error(`Run ${runId} is already finished`);
+    }
+
+    const { nodes: added, warnings } = this.adapter.appendSteps(
+      run.nodes,
+      steps,
+      mapping ?? run.mapping,
+      runId,
+    );
+
+    // A new run is only tracked once its first steps normalize
+    this.runs.set(runId, run);
+    run.rawSteps.push(...steps);
+    run.nodes.push(...added);
+    run.warnings.push(...warnings);
+    run.updatedAt = Date.now();
+    this.scheduleIdleTimeout(run);
+
+    if (added.length > 0) {
+      this.emit({ type: "steps", runId, nodes: added });
+    }
+
+    return { added, warnings };
+  }
+
+  async finish(
+    runId: string,
+    reason: "explicit" | "timeout" = "explicit",
+  ): Promise<LiveRunState | undefined> {
+    const run = this.runs.get(runId);
+    if (!run) return undefined;
+    if (run.status === "finished") return this.toState(run);
+
+    // Concurrent finish calls share one save
+    if (!run.finishing) {
+      run.finishing = this.save(run, reason).finally(() => {
+        run.finishing = undefined;
+      });
+    }
+    return run.finishing;
+  }
+
+  /**
+   * Persists the run and only then marks it finished, so a failed save leaves
+   * it open for another finish (the idle timeout retries on its own).
+   */
+  private async save(run: LiveRun, reason: "explicit" | "timeout"): Promise<LiveRunState> {
+    const { runId } = run;
+    clearTimeout(run.timer);
+
+    let stored;
+    try {
+      stored = await this.store.createTrace({
+        raw: { run_id: runId, steps: run.rawSteps },
+        trace: this.toState(run).trace,
+      });
+    } catch (error) {
+      this.scheduleIdleTimeout(run);
+      throw error;
+    }
+
+    run.status = "finished";
+    run.finishedAt = Date.now();
+    run.finishReason = reason;
+    run.storedId = stored.id;
+    const state = this.toState(run);
+
+    // Raw steps are persisted now; drop them and forget the run after the retention window
+    run.rawSteps = [];
+    run.timer = setTimeout(() => this.runs.delete(runId), FINISHED_RETENTION_MS);
+    run.timer.unref();
+
+    this.emit({ type: "finished", runId, storedId: stored.id, finishReason: reason });
+
+    return state;
+  }
+
+  private emit(event: LiveRunEvent) {
+    this.events.emit(event.runId, event);
+  }
+
+  private scheduleIdleTimeout(run: LiveRun) {
+    clearTimeout(run.timer);
+    run.timer = setTimeout(() => {
+      this.finish(run.runId, "timeout").catch((error) => {
+        log(`failed to finish idle run ${run.runId}: ${error}`, "live-runs");
+      });
+    }, IDLE_TIMEOUT_MS);
+    run.timer.unref();
+  }
+
+  private toState(run: LiveRun): LiveRunState {
+    return {
+      runId: run.runId,
+      status: run.status,
+      trace: analyzeTrace({ id: run.runId, source: "live", nodes: run.nodes }),
+      createdAt: run.createdAt,
+      updatedAt: run.updatedAt,
+      finishedAt: run.finishedAt,
+      finishReason: run.finishReason,
+      storedId: run.storedId,
+      warnings: run.warnings.length > 0 ? run.warnings : undefined,
+    };
+  }
+}
+
+export const liveRuns = new LiveRunManager(storage);
@@ -1,13 +1,202 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import { fromZodError } from "zod-validation-error";
+import { createTraceSchema, appendStepsSchema } from "@shared/schema";
+import { parseTrace } from "@shared/adapters/registry";
+import { analyzeTrace } from "@shared/analysis/trace-analyzer";
+import { createRedactor } from "@shared/analysis/redaction";
 import { storage } from "./storage";
+import { liveRuns } from "./live-runs";
+import type { LiveRunEvent } from "@shared/models";
+
+const SSE_HEARTBEAT_MS = 15000;
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // put application routes here
   // prefix all routes with /api
 
-  // use storage to perform CRUD operations on the storage interface
-  // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
+  app.post("/api/traces", async (req, res) => {
+    const body = createTraceSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ message: fromZodError(body.error).toString() });
+    }
+
+    const { mapping, adapter, rules, redact } = body.data;
+    const raw = redact ? createRedactor().redact(body.data.raw) : body.data.raw;
+    const result = parseTrace(raw, { mapping, adapterId: adapter });
+    if (!result.success || !result.trace) {
+      return res.status(422).json({
+        message: result.error || "Failed to parse trace",
+        warnings: result.warnings,
+      });
+    }
+
+    // Express 4 does not catch rejected promises, so storage failures are answered here
+    try {
+      const stored = await storage.createTrace({
+        raw,
+        trace: analyzeTrace(result.trace, rules),
+      });
+
+      res.status(201).json({
+        id: stored.id,
+        createdAt: stored.createdAt,
+        trace: stored.trace,
+        warnings: result.warnings,
+        detectedFormat: result.detectedFormat,
+        adapter: result.adapterId,
+      });
+    } catch (error) {
+      console.error("Failed to save trace:", error);
+      res.status(500).json({ message: "Failed to save the trace" });
+    }
+  });
+
+  app.get("/api/traces", async (_req, res) => {
+    try {
+      res.json(await storage.listTraces());
+    } catch (error) {
+      console.error("Failed to list traces:", error);
+      res.status(500).json({ message: "Failed to list traces" });
+    }
+  });
+
+  app.get("/api/traces/:id", async (req, res) => {
+    try {
+      const stored = await storage.getTrace(req.params.id);
+      if (!stored) {
+        return res.status(404).json({ message: "Trace not found" });
+      }
+
+      res.json({ id: stored.id, createdAt: stored.createdAt, trace: stored.trace });
+    } catch (error) {
+      console.error("Failed to load trace:", error);
+      res.status(500).json({ message: "Failed to load the trace" });
+    }
+  });
+
+  app.get("/api/traces/:id/raw", async (req, res) => {
+    try {
+      const stored = await storage.getTrace(req.params.id);
+      if (!stored) {
+        return res.status(404).json({ message: "Trace not found" });
+      }
+
+      res.json(stored.raw);
+    } catch (error) {
+      console.error("Failed to load trace:", error);
+      res.status(500).json({ message: "Failed to load the trace" });
+    }
+  });
+
+  app.delete("/api/traces/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteTrace(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Trace not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Failed to delete trace:", error);
+      res.status(500).json({ message: "Failed to delete the trace" });
+    }
+  });
+
+  // Live ingestion: agents push steps as they happen, then finish the run
+  app.post("/api/runs/:runId/steps", async (req, res) => {
+    const body = appendStepsSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ message: fromZodError(body.error).toString() });
+    }
+
+    const { runId } = req.params;
+    if (liveRuns.isFinished(runId)) {
+      return res.status(409).json({ message: `Run ${runId} is already finished` });
+    }
+
+    const payload = body.data;
+    const steps = Array.isArray(payload)
+      ? payload
+      : Array.isArray(payload.steps)
+        ? payload.steps
+        : [payload];
+    const mapping = !Array.isArray(payload) && Array.isArray(payload.steps)
+      ? payload.mapping
+      : undefined;
+
+    try {
+      const { added, warnings } = liveRuns.append(runId, steps, mapping);
+
+      res.status(202).json({
+        runId,
+        status: "open",
+        added: added.map((node) => node.id),
+        warnings: warnings.length > 0 ? warnings : undefined,
+      });
+    } catch (error) {
+      // The steps come straight from the client, so a failure to normalize them is bad input
+      console.error("Failed to append steps:", error);
+      res.status(400).json({
+        message: `Failed to append the steps: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  });
+
+  app.post("/api/runs/:runId/finish", async (req, res) => {
+    try {
+      const state = await liveRuns.finish(req.params.runId);
+      if (!state) {
+        return res.status(404).json({ message: "Run not found" });
+      }
+
+      res.json(state);
+    } catch (error) {
+      console.error("Failed to finish run:", error);
+      res.status(500).json({ message: "Failed to save the run; it is still open" });
+    }
+  });
+
+  app.get("/api/runs", async (_req, res) => {
+    res.json(liveRuns.list());
+  });
+
+  // Server-Sent Events: a snapshot of the nodes so far, then each appended batch
+  app.get("/api/runs/:runId/events", (req, res) => {
+    const { runId } = req.params;
+
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+
+    const send = (event: LiveRunEvent) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    send(liveRuns.snapshot(runId));
+    const unsubscribe = liveRuns.subscribe(runId, send);
+
+    // Comment lines keep idle connections from being dropped by proxies
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), SSE_HEARTBEAT_MS);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  app.get("/api/runs/:runId", async (req, res) => {
+    const state = liveRuns.get(req.params.runId);
+    if (!state) {
+      return res.status(404).json({ message: "Run not found" });
+    }
+
+    res.json(state);
+  });
 
   const httpServer = createServer(app);
 
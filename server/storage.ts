@@ -1,5 +1,12 @@
 import { type User, type InsertUser } from "@shared/schema";
+import {
+  type StoredTrace,
+  type InsertStoredTrace,
+  type TraceSummary,
+} from "@shared/models";
 import { randomUUID } from "crypto";
+import { createDb } from "./db";
+import { DbStorage } from "./db-storage";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -8,13 +15,32 @@ export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  createTrace(trace: InsertStoredTrace): Promise<StoredTrace>;
+  getTrace(id: string): Promise<StoredTrace | undefined>;
+  listTraces(): Promise<TraceSummary[]>;
+  deleteTrace(id: string): Promise<boolean>;
+}
+
+export function summarizeStoredTrace(stored: StoredTrace): TraceSummary {
+  return {
+    id: stored.id,
+    traceId: stored.trace.id,
+    source: stored.trace.source,
+    nodeCount: stored.trace.nodes.length,
+    riskLevel: stored.trace.riskLevel,
+    issueCount: stored.trace.issues?.length || 0,
+    createdAt: stored.createdAt,
+  };
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private traces: Map<string, StoredTrace>;
 
   constructor() {
     this.users = new Map();
+    this.traces = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -33,6 +59,35 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async createTrace(insertTrace: InsertStoredTrace): Promise<StoredTrace> {
+    const id = randomUUID();
+    const stored: StoredTrace = { ...insertTrace, id, createdAt: Date.now() };
+    this.traces.set(id, stored);
+    return stored;
+  }
+
+  async getTrace(id: string): Promise<StoredTrace | undefined> {
+    return this.traces.get(id);
+  }
+
+  async listTraces(): Promise<TraceSummary[]> {
+    return Array.from(this.traces.values())
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(summarizeStoredTrace);
+  }
+
+  async deleteTrace(id: string): Promise<boolean> {
+    return this.traces.delete(id);
+  }
+}
+
+// Postgres-backed when DATABASE_URL is configured, in-memory otherwise
+function createStorage(): IStorage {
+  if (process.env.DATABASE_URL) {
+    return new DbStorage(createDb(process.env.DATABASE_URL));
+  }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,353 @@
+import { TraceAdapter } from './index';
+import { HEAVY_TOKEN_THRESHOLD } from './generic';
+import { TraceRun, TraceNode, NodeType, Step, FieldMapping, ParseResult, NodeMetrics, TokenUsage } from '../models';
+
+// Block types that only appear in Anthropic Messages API content arrays
+const ANTHROPIC_BLOCK_TYPES = ['tool_use', 'tool_result', 'thinking', 'redacted_thinking', 'server_tool_use'];
+
+// Stop reasons that mean the final answer is incomplete
+const INCOMPLETE_STOP_REASONS: Record<string, string> = {
+  max_tokens: 'hit max_tokens; the output may be truncated',
+  refusal: 'was a refusal',
+  pause_turn: 'paused mid-turn; the conversation was not resumed',
+};
+
+// Messages API usage fields by the TokenUsage field they fill
+const USAGE_FIELDS: Array<[Exclude<keyof TokenUsage, 'total'>, string]> = [
+  ['prompt', 'input_tokens'],
+  ['completion', 'output_tokens'],
+  ['cacheRead', 'cache_read_input_tokens'],
+  ['cacheWrite', 'cache_creation_input_tokens'],
+];
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: any[];
+  stop_reason?: string;
+  usage?: any;
+  model?: string;
+  id?: string;
+}
+
+function toBlocks(content: any): any[] {
+  if (typeof content === 'string') return [{ type: 'text', text: content }];
+  if (Array.isArray(content)) return content.filter(block => block && typeof block === 'object');
+  return [];
+}
+
+function blockText(content: any): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return content === undefined || content === null ? '' : JSON.stringify(content, null, 2);
+  return content
+    .map((block: any) => {
+      if (typeof block === 'string') return block;
+      if (block?.type === 'text') return block.text;
+      if (block?.type === 'image') return '[image]';
+      if (block?.type === 'document') return '[document]';
+      return JSON.stringify(block, null, 2);
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+function hasAnthropicBlocks(messages: any[]): boolean {
+  return messages.some(message =>
+    Array.isArray(message?.content) &&
+    message.content.some((block: any) => ANTHROPIC_BLOCK_TYPES.includes(block?.type))
+  );
+}
+
+function isMessageResponse(raw: any): boolean {
+  return raw?.type === 'message' && raw?.role === 'assistant' && Array.isArray(raw?.content);
+}
+
+export class AnthropicAdapter implements TraceAdapter {
+  id = 'anthropic';
+  label = 'Anthropic Messages';
+
+  canHandle(raw: any): number {
+    if (isMessageResponse(raw)) return 0.9;
+    if (Array.isArray(raw)) return hasAnthropicBlocks(raw) ? 0.9 : 0;
+
+    const request = raw?.request ?? raw;
+    const messages = request?.messages;
+    if (!Array.isArray(messages)) return 0;
+    if (hasAnthropicBlocks(messages) || isMessageResponse(raw?.response)) return 0.9;
+    // Plain-text conversations look the same as other chat APIs; only the model gives it away
+    const claudeModel = typeof request?.model === 'string' && request.model.startsWith('claude');
+    return raw?.anthropic_version || claudeModel ? 0.6 : 0;
+  }
+
+  normalize(raw: any, mapping?: FieldMapping): TraceRun {
+    const result = this.parse(raw, mapping);
+
+    if (!result.success || !result.trace) {
+      return {
+        id: `run-${Date.now()}`,
+        source: this.id,
+        nodes: [{
+          id: 'error-node',
+          type: 'system',
+          content: result.error || 'Failed to parse Anthropic transcript',
+          order: 0,
+          parentId: null,
+          metadata: { error: true, warnings: result.warnings }
+        }]
+      };
+    }
+
+    return result.trace;
+  }
+
+  /**
+   * Parses a Messages API conversation: a request body ({ system, messages }),
+   * a { request, response } pair, a bare message array, or a single response.
+   * Each content block becomes a node; tool_result blocks are linked to their
+   * tool_use by tool_use_id.
+   */
+  parse(raw: any, _mapping?: FieldMapping): ParseResult {
+    const warnings: string[] = [];
+
+    try {
+      if (typeof raw === 'string') {
+        try {
+          raw = JSON.parse(raw);
+        } catch {
+          return {
+            success: false,
+            error: 'Input is a string but not valid JSON. Please check the syntax.',
+            warnings
+          };
+        }
+      }
+
+      const { system, messages, model } = this.collectMessages(raw);
+      if (messages.length === 0) {
+        return {
+          success: false,
+          error: 'No messages found. Expected a Messages API request ({ messages }) or response ({ type: "message", content }).',
+          warnings,
+          detectedFormat: 'anthropic'
+        };
+      }
+
+      const finalIndex = this.findFinalAssistantMessage(messages);
+      const nodes: TraceNode[] = [];
+      const steps: Step[] = [];
+      const toolUseNodes = new Map<string, string>();
+
+      const addNode = (
+        type: NodeType,
+        content: string,
+        block: any,
+        metadata: Record<string, any>,
+        parentId?: string | null,
+        metrics?: NodeMetrics
+      ) => {
+        const node: TraceNode = {
+          id: `step-${nodes.length}`,
+          type,
+          content,
+          order: nodes.length,
+          // Default to the previous step, like the generic adapter's fallback chain
+          parentId: parentId !== undefined ? parentId : nodes[nodes.length - 1]?.id ?? null,
+          metadata,
+          metrics
+        };
+        nodes.push(node);
+        steps.push({ id: node.id, parent_id: node.parentId, type, content, raw: block });
+        return node;
+      };
+
+      if (system) {
+        addNode('system', system, { type: 'system', text: system }, { role: 'system' });
+      }
+
+      messages.forEach((message, messageIndex) => {
+        const isFinal = messageIndex === finalIndex;
+        const messageMetadata = {
+          role: message.role,
+          messageId: message.id,
+          stop_reason: message.stop_reason,
+        };
+        // Token usage is per API response, so it goes on the first node of the message
+        let metrics = message.role === 'assistant' ? this.buildMetrics(message, model) : undefined;
+        const takeMetrics = () => {
+          const taken = metrics;
+          metrics = undefined;
+          return taken;
+        };
+
+        const userText: string[] = [];
+        const flushUserText = () => {
+          if (userText.length > 0) {
+            addNode('other', userText.join('\n'), { role: 'user', content: userText.join('\n') }, messageMetadata);
+            userText.length = 0;
+          }
+        };
+
+        for (const block of message.content) {
+          switch (block.type) {
+            case 'text': {
+              if (message.role === 'user') {
+                userText.push(block.text || '');
+                break;
+              }
+              addNode(isFinal ? 'output' : 'thought', block.text || '', block, messageMetadata, undefined, takeMetrics());
+              break;
+            }
+            case 'thinking':
+            case 'redacted_thinking': {
+              const content = block.type === 'thinking' ? block.thinking || '' : '[Redacted thinking]';
+              addNode('thought', content, block, { ...messageMetadata, thinking: true }, undefined, takeMetrics());
+              break;
+            }
+            case 'tool_use':
+            case 'server_tool_use': {
+              const input = block.input ?? {};
+              const node = addNode('action', `${block.name}\n${JSON.stringify(input, null, 2)}`, block, {
+                ...messageMetadata,
+                tool: block.name,
+                tool_input: input,
+                tool_use_id: block.id,
+                server_tool: block.type === 'server_tool_use' || undefined,
+              }, undefined, takeMetrics());
+              if (block.id) toolUseNodes.set(block.id, node.id);
+              break;
+            }
+            default: {
+              // tool_result from the user, or server tool results (web_search_tool_result, ...)
+              if (block.type === 'tool_result' || (typeof block.type === 'string' && block.type.endsWith('_tool_result'))) {
+                flushUserText();
+                const actionId = block.tool_use_id ? toolUseNodes.get(block.tool_use_id) : undefined;
+                if (block.tool_use_id && !actionId) {
+                  warnings.push(`tool_result for ${block.tool_use_id} has no matching tool_use block.`);
+                }
+                const isError = block.is_error === true || block.content?.type?.endsWith?.('_error');
+                const actionNode = actionId ? nodes.find(n => n.id === actionId) : undefined;
+                addNode('observation', blockText(block.content), block, {
+                  ...messageMetadata,
+                  tool: actionNode?.metadata?.tool,
+                  tool_output: block.content,
+                  tool_use_id: block.tool_use_id,
+                  ...(isError ? { error: true, status: 'error' } : {}),
+                }, actionId, isError ? { hasError: true, errorMessage: blockText(block.content) } : undefined);
+                break;
+              }
+              if (message.role === 'user') {
+                userText.push(blockText([block]));
+              } else {
+                addNode('other', blockText([block]), block, messageMetadata, undefined, takeMetrics());
+              }
+            }
+          }
+        }
+        flushUserText();
+
+        if (isFinal && message.stop_reason && INCOMPLETE_STOP_REASONS[message.stop_reason]) {
+          warnings.push(`The final response ${INCOMPLETE_STOP_REASONS[message.stop_reason]}.`);
+        }
+      });
+
+      const trace: TraceRun = {
+        id: raw?.id || raw?.response?.id || `run-${Date.now()}`,
+        source: this.id,
+        nodes
+      };
+
+      return {
+        success: true,
+        trace,
+        steps,
+        warnings: warnings.length > 0 ? warnings : undefined,
+        detectedFormat: 'anthropic'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Unexpected error during parsing: ${error instanceof Error ? error.message : String(error)}`,
+        warnings
+      };
+    }
+  }
+
+  private collectMessages(raw: any): { system?: string; messages: AnthropicMessage[]; model?: string } {
+    const toMessage = (message: any): AnthropicMessage => ({
+      role: message.role === 'assistant' ? 'assistant' : 'user',
+      content: toBlocks(message.content),
+      stop_reason: message.stop_reason,
+      usage: message.usage,
+      model: message.model,
+      id: message.id,
+    });
+
+    if (isMessageResponse(raw)) {
+      return { messages: [toMessage(raw)], model: raw.model };
+    }
+
+    if (Array.isArray(raw)) {
+      return { messages: raw.filter(m => m && m.role).map(toMessage) };
+    }
+
+    const request = raw?.request ?? raw;
+    const messages: AnthropicMessage[] = Array.isArray(request?.messages)
+      ? request.messages.filter((m: any) => m && m.role).map(toMessage)
+      : [];
+
+    const response = raw?.response;
+    if (isMessageResponse(response)) {
+      messages.push(toMessage(response));
+    } else if (messages.length > 0 && (raw?.usage || raw?.stop_reason)) {
+      // Logged transcripts sometimes keep the last response's usage at the top level
+      const last = messages[messages.length - 1];
+      if (last.role === 'assistant') {
+        last.usage = last.usage ?? raw.usage;
+        last.stop_reason = last.stop_reason ?? raw.stop_reason;
+      }
+    }
+
+    const system = request?.system !== undefined ? blockText(request.system) : undefined;
+    return { system: system || undefined, messages, model: request?.model ?? response?.model };
+  }
+
+  /**
+   * The final answer is the last assistant message, unless it stopped to call tools.
+   */
+  private findFinalAssistantMessage(messages: AnthropicMessage[]): number {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const message = messages[i];
+      if (message.role !== 'assistant') continue;
+      const callsTools = message.stop_reason === 'tool_use' || message.content.some(block => block.type === 'tool_use');
+      return callsTools ? -1 : i;
+    }
+    return -1;
+  }
+
+  private buildMetrics(message: AnthropicMessage, model?: string): NodeMetrics | undefined {
+    const metrics: NodeMetrics = {};
+    const usage = message.usage;
+
+    if (usage && typeof usage === 'object') {
+      const tokenUsage: TokenUsage = {};
+      // input_tokens excludes cached prompt tokens, which are billed at their own rates
+      for (const [key, field] of USAGE_FIELDS) {
+        const value = Number(usage[field]);
+        if (!isNaN(value)) tokenUsage[key] = value;
+      }
+      const counts = Object.values(tokenUsage) as number[];
+      if (counts.length > 0) {
+        tokenUsage.total = counts.reduce((sum, value) => sum + value, 0);
+        metrics.tokenUsage = tokenUsage;
+      }
+    }
+
+    const modelName = message.model ?? model;
+    if (modelName) metrics.modelName = modelName;
+
+    if (metrics.tokenUsage?.total !== undefined && metrics.tokenUsage.total > HEAVY_TOKEN_THRESHOLD) {
+      metrics.isTokenHeavy = true;
+    }
+
+    return Object.keys(metrics).length > 0 ? metrics : undefined;
+  }
+}
@@ -1,13 +1,30 @@
 import { TraceAdapter } from './index';
-import { TraceRun, TraceNode, NodeType, Step, FieldMapping, ParseResult, KNOWN_STEP_ARRAY_KEYS, LangGraphDetails, NodeMetrics, TokenUsage } from '../models';
+import { parseJsonDocuments } from './ndjson';
+import { TraceRun, TraceNode, NodeType, Step, FieldMapping, ParseResult, KNOWN_STEP_ARRAY_KEYS, LangGraphDetails, NodeMetrics, TokenUsage, RunSplit, SplitRun } from '../models';
 
-const SLOW_THRESHOLD_MS = 3000;
-const HEAVY_TOKEN_THRESHOLD = 2000;
+export const SLOW_THRESHOLD_MS = 3000;
+export const HEAVY_TOKEN_THRESHOLD = 2000;
+
+// Step fields that identify the run a step belongs to, in order of preference
+const RUN_KEY_FIELDS: { field: string; paths: string[] }[] = [
+  { field: 'run_id', paths: ['run_id', 'runId', 'metadata.run_id'] },
+  { field: 'thread_id', paths: ['thread_id', 'threadId', 'metadata.thread_id', 'config.configurable.thread_id', 'configurable.thread_id'] },
+  { field: 'session_id', paths: ['session_id', 'sessionId', 'metadata.session_id'] },
+];
 
 export class GenericAdapter implements TraceAdapter {
   id = 'generic';
   label = 'Generic JSON';
 
+  /**
+   * The generic adapter accepts almost any JSON, so it ranks below dedicated
+   * adapters: higher for the framework shapes it recognizes, lowest otherwise.
+   */
+  canHandle(raw: any): number {
+    if (raw === null || typeof raw !== 'object') return 0;
+    return this.detectFormatStrict(raw) === 'generic' ? 0.1 : 0.5;
+  }
+
   normalize(raw: any, mapping?: FieldMapping): TraceRun {
     const result = this.parse(raw, mapping);
     
@@ -42,15 +59,18 @@ export class GenericAdapter implements TraceAdapter {
       }
 
       if (typeof raw === 'string') {
-        try {
-          raw = JSON.parse(raw);
-        } catch {
+        // Accepts a single document, JSONL/NDJSON, or concatenated JSON objects
+        const { documents, warnings: lineWarnings, error: syntaxError } = parseJsonDocuments(raw);
+        warnings.push(...lineWarnings);
+        if (documents.length === 0) {
           return {
             success: false,
-            error: 'Input is a string but not valid JSON. Please check the syntax.',
+            error: `Input is a string but not valid JSON. Please check the syntax.${syntaxError ? `\n\n${syntaxError}` : ''}`,
             warnings
           };
         }
+        // Multiple documents are one step each
+        raw = documents.length === 1 ? documents[0] : documents;
       }
 
       // STRICT FORMAT DETECTION - Priority order: LangGraph → LangChain → Array → Generic
@@ -98,36 +118,9 @@ export class GenericAdapter implements TraceAdapter {
         };
       }
 
-      const nodeIds = expandedSteps.map((step, index) => this.extractId(step, index, mapping));
-      
-      const toolCallIdToNodeId = this.buildToolCallIdMap(expandedSteps, nodeIds);
-      
-      const nodes: TraceNode[] = expandedSteps.map((step, index) => {
-        const type = this.detectType(step, mapping);
-        const content = this.extractContent(step, mapping);
-        const timestamp = this.extractTimestamp(step, mapping);
-        const confidence = this.extractConfidence(step);
-        const langGraphDetails = this.extractLangGraphDetails(step);
-        
-        if (content === '[Empty step]') {
-          warnings.push(`Step ${index}: No content could be extracted`);
-        }
-        
-        const metrics = this.extractMetrics(step);
-        
-        return {
-          id: nodeIds[index],
-          type,
-          content,
-          timestamp,
-          confidence,
-          parentId: this.extractParentId(step, index, nodeIds, mapping, toolCallIdToNodeId),
-          order: step.order !== undefined ? step.order : index,
-          metadata: this.sanitizeMetadata(step),
-          langGraphDetails: Object.keys(langGraphDetails).length > 0 ? langGraphDetails : undefined,
-          metrics: Object.keys(metrics).length > 0 ? metrics : undefined
-        };
-      });
+      // A top-level run_id (e.g. a run split out by splitRuns) names the run, not its steps
+      const runId = !Array.isArray(raw) && raw.run_id !== undefined && raw.run_id !== null ? String(raw.run_id) : undefined;
+      const nodes = this.buildNodes(expandedSteps, mapping, warnings, [], runId);
 
       const steps: Step[] = nodes.map((node, index) => ({
         id: node.id,
@@ -162,6 +155,134 @@ export class GenericAdapter implements TraceAdapter {
     }
   }
 
+  /**
+   * Normalize additional raw steps onto an existing run (live ingestion).
+   * Ids, fallback parent links and tool_call_id links continue from `priorNodes`.
+   * Steps tagged with `runId` do not take it as their id.
+   */
+  appendSteps(priorNodes: TraceNode[], rawSteps: any[], mapping?: FieldMapping, runId?: string): { nodes: TraceNode[]; warnings: string[] } {
+    const warnings: string[] = [];
+    const expandedSteps = this.expandSteps(rawSteps, mapping, priorNodes.length);
+    const nodes = this.buildNodes(expandedSteps, mapping, warnings, priorNodes, runId);
+    return { nodes, warnings };
+  }
+
+  /**
+   * Split a log that interleaves steps from many runs into one TraceRun per
+   * run key. The first of run_id, thread_id and session_id that actually groups
+   * steps is used (per-step unique ids such as callback run_ids are skipped).
+   * Returns null when the steps belong to a single run.
+   */
+  splitRuns(raw: any, mapping?: FieldMapping): RunSplit | null {
+    const warnings: string[] = [];
+
+    if (typeof raw === 'string') {
+      const { documents, warnings: lineWarnings } = parseJsonDocuments(raw);
+      warnings.push(...lineWarnings);
+      if (documents.length === 0) return null;
+      raw = documents.length === 1 ? documents[0] : documents;
+    }
+    if (raw === null || typeof raw !== 'object') return null;
+
+    const detectedFormat = this.detectFormatStrict(raw);
+    const { steps } = this.findStepArrayForFormat(raw, detectedFormat, mapping?.stepsPath);
+    if (!steps || steps.length < 2) return null;
+
+    for (const { field, paths } of RUN_KEY_FIELDS) {
+      const keys = steps.map(step => this.extractRunKey(step, paths));
+      const covered = keys.filter((key): key is string => key !== undefined);
+      const distinct = new Set(covered);
+      // Most steps must carry the key, and it has to group them into a few runs
+      if (covered.length < steps.length / 2 || distinct.size < 2 || distinct.size === covered.length) {
+        continue;
+      }
+
+      const groups = new Map<string, any[]>();
+      steps.forEach((step, index) => {
+        const key = keys[index] ?? '(no run id)';
+        const group = groups.get(key) || [];
+        group.push(step);
+        groups.set(key, group);
+      });
+
+      const runs: SplitRun[] = [];
+      // The payload already holds the steps at the top level, so a custom steps path no longer applies
+      const groupMapping = mapping ? { ...mapping, stepsPath: undefined } : undefined;
+      groups.forEach((groupSteps, runKey) => {
+        const payload = { run_id: runKey, steps: groupSteps };
+        const result = this.parse(payload, groupMapping);
+        if (result.success && result.trace) {
+          runs.push({ runKey, raw: payload, trace: result.trace });
+        } else {
+          warnings.push(`Run ${runKey}: ${result.error || 'could not be parsed'}`);
+        }
+      });
+
+      return { field, runs, warnings: warnings.length > 0 ? warnings : undefined };
+    }
+
+    return null;
+  }
+
+  private extractRunKey(step: any, paths: string[]): string | undefined {
+    if (step === null || typeof step !== 'object') return undefined;
+    for (const path of paths) {
+      const value = this.getNestedValue(step, path);
+      if (value !== undefined && value !== null && value !== '') {
+        return String(value);
+      }
+    }
+    return undefined;
+  }
+
+  private buildNodes(expandedSteps: any[], mapping: FieldMapping | undefined, warnings: string[], priorNodes: TraceNode[] = [], runId?: string): TraceNode[] {
+    const offset = priorNodes.length;
+    const nodeIds = [
+      ...priorNodes.map(node => node.id),
+      ...expandedSteps.map((step, index) => this.extractId(step, offset + index, mapping, runId))
+    ];
+    
+    // Prior node metadata keeps tool_calls, so results can link to calls from earlier batches
+    const toolCallIdToNodeId = this.buildToolCallIdMap(
+      [...priorNodes.map(node => node.metadata || {}), ...expandedSteps],
+      nodeIds
+    );
+    
+    return expandedSteps.map((step, stepIndex) => {
+      const index = offset + stepIndex;
+      const type = this.detectType(step, mapping);
+      const content = this.extractContent(step, mapping);
+      const timestamp = this.extractTimestamp(step, mapping);
+      const confidence = this.extractConfidence(step);
+      const langGraphDetails = this.extractLangGraphDetails(step);
+      
+      if (content === '[Empty step]') {
+        warnings.push(`Step ${index}: No content could be extracted`);
+      }
+      
+      const metrics = this.extractMetrics(step);
+
+      // A step cannot be its own parent; treat it like a step without a parent field
+      let parentId = this.extractParentId(step, index, nodeIds, mapping, toolCallIdToNodeId);
+      if (parentId === nodeIds[index]) {
+        parentId = index > 0 ? nodeIds[index - 1] : null;
+      }
+      
+      return {
+        id: nodeIds[index],
+        type,
+        content,
+        timestamp,
+        confidence,
+        parentId,
+        order: step.order !== undefined ? step.order : index,
+        metadata: this.sanitizeMetadata(step),
+        langGraphDetails: Object.keys(langGraphDetails).length > 0 ? langGraphDetails : undefined,
+        metrics: Object.keys(metrics).length > 0 ? metrics : undefined
+      };
+    });
+  }
+
   /**
    * STRICT FORMAT DETECTION
    * Priority order: LangGraph → LangChain → OpenAI → Array → Generic
@@ -413,7 +534,12 @@ export class GenericAdapter implements TraceAdapter {
     return current;
   }
 
-  private expandSteps(steps: any[], mapping?: FieldMapping): any[] {
+  /**
+   * Expand raw steps into one entry per node (tuples, LangChain objects and
+   * sub-keys are split). `indexOffset` shifts the original step indices so
+   * batches appended to an existing run get ids that don't collide.
+   */
+  expandSteps(steps: any[], mapping?: FieldMapping, indexOffset: number = 0): any[] {
     const expanded: any[] = [];
     let globalIndex = 0;
     
@@ -422,14 +548,15 @@ export class GenericAdapter implements TraceAdapter {
     
     for (let i = 0; i < steps.length; i++) {
       const step = steps[i];
+      const originalIndex = indexOffset + i;
       
       if (typeof step === 'string') {
-        expanded.push({ content: step, _originalIndex: i, _globalIndex: globalIndex++ });
+        expanded.push({ content: step, _originalIndex: originalIndex, _globalIndex: globalIndex++ });
         continue;
       }
       
       if (typeof step !== 'object' || step === null) {
-        expanded.push({ content: String(step), _originalIndex: i, _globalIndex: globalIndex++ });
+        expanded.push({ content: String(step), _originalIndex: originalIndex, _globalIndex: globalIndex++ });
         continue;
       }
 
@@ -439,8 +566,8 @@ export class GenericAdapter implements TraceAdapter {
         
         if (typeof first === 'object' && first !== null && 
             (first.tool || first.action || first.name || first.log)) {
-          const actionId = `step-${i}-action`;
-          const obsId = `step-${i}-observation`;
+          const actionId = `step-${originalIndex}-action`;
+          const obsId = `step-${originalIndex}-observation`;
           
           const toolName = first.tool || first.action || first.name || 'tool';
           const toolInput = first.tool_input || first.input || first.args || '';
@@ -453,7 +580,7 @@ export class GenericAdapter implements TraceAdapter {
             id: actionId,
             content: actionContent,
             type: 'action',
-            _originalIndex: i,
+            _originalIndex: originalIndex,
             _tupleIndex: 0,
             _globalIndex: globalIndex++,
             _linkedObservationId: obsId
@@ -466,7 +593,7 @@ export class GenericAdapter implements TraceAdapter {
             id: obsId,
             content: obsContent,
             type: 'observation',
-            _originalIndex: i,
+            _originalIndex: originalIndex,
             _tupleIndex: 1,
             _globalIndex: globalIndex++,
             _linkedActionId: actionId
@@ -477,7 +604,7 @@ export class GenericAdapter implements TraceAdapter {
 
       // Handle LangChain separate objects format: {action, tool_input} or {observation}
       if (isLangChainFormat) {
-        const langChainNode = this.extractLangChainNode(step, i, globalIndex, expanded);
+        const langChainNode = this.extractLangChainNode(step, originalIndex, globalIndex, expanded);
         if (langChainNode) {
           langChainNode._globalIndex = globalIndex++;
           expanded.push(langChainNode);
@@ -485,14 +612,14 @@ export class GenericAdapter implements TraceAdapter {
         }
       }
 
-      const subSteps = this.extractSubSteps(step, i);
+      const subSteps = this.extractSubSteps(step, originalIndex);
       if (subSteps.length > 0) {
         for (const subStep of subSteps) {
           subStep._globalIndex = globalIndex++;
           expanded.push(subStep);
         }
       } else {
-        expanded.push({ ...step, _originalIndex: i, _globalIndex: globalIndex++ });
+        expanded.push({ ...step, _originalIndex: originalIndex, _globalIndex: globalIndex++ });
       }
     }
     
@@ -766,7 +893,7 @@ export class GenericAdapter implements TraceAdapter {
     return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  private extractId(step: any, index: number, mapping?: FieldMapping): string {
+  private extractId(step: any, index: number, mapping?: FieldMapping, runId?: string): string {
     if (mapping?.idField) {
       const customId = this.getNestedValue(step, mapping.idField);
       if (customId !== undefined && customId !== null) return String(customId);
@@ -775,6 +902,7 @@ export class GenericAdapter implements TraceAdapter {
     const idFields = ['id', 'step_id', 'node_id', 'nodeId', 'uuid', 'event_id', 'eventId', 'message_id', 'run_id'];
     
     for (const field of idFields) {
+      if (field === 'run_id' && runId !== undefined && String(step[field]) === runId) continue;
       if (step[field] !== undefined && step[field] !== null) {
         const baseId = String(step[field]);
         if (step._tupleIndex !== undefined) {
@@ -1201,7 +1329,7 @@ export class GenericAdapter implements TraceAdapter {
    * - output: final answer, completion, user-facing response
    * - system: logs, errors, internal messages
    */
-  private detectType(step: any, mapping?: FieldMapping): NodeType {
+  detectType(step: any, mapping?: FieldMapping): NodeType {
     // Priority 1: Explicit type field with exact match
     if (step.type === 'action') return 'action';
     if (step.type === 'observation') return 'observation';
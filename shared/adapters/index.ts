@@ -3,7 +3,11 @@ import { TraceRun, FieldMapping, ParseResult } from '../models';
 export interface TraceAdapter {
   id: string;
   label: string;
-  canHandle?(raw: any): boolean;
+  /**
+   * Confidence from 0 (cannot parse) to 1 (unambiguous match) that this
+   * adapter understands the input. Used by the registry to rank adapters.
+   */
+  canHandle?(raw: any): number;
   normalize(raw: any, mapping?: FieldMapping): TraceRun;
   parse?(raw: any, mapping?: FieldMapping): ParseResult;
 }
@@ -0,0 +1,123 @@
+// Per-line failures beyond this are summarized in a single warning
+const MAX_LINE_WARNINGS = 20;
+
+export interface JsonDocuments {
+  documents: any[];
+  warnings: string[];
+  /** Syntax error of input that is a single (broken) document */
+  error?: string;
+}
+
+/**
+ * Finds the end of the object or array starting at `start`, skipping over
+ * brackets inside strings. Returns -1 if it is never closed.
+ */
+function findValueEnd(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{' || ch === '[') depth++;
+    else if (ch === '}' || ch === ']') {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Whether text that is not one valid document holds several values: its
+ * first line parses on its own, or something follows the first value.
+ * A single broken document (e.g. a trailing comma in pretty-printed JSON)
+ * does not, even though its inner objects would parse.
+ */
+function isMultiDocument(text: string): boolean {
+  const start = text.search(/\S/);
+  if (start === -1) return false;
+
+  const newline = text.indexOf('\n', start);
+  const lineEnd = newline === -1 ? text.length : newline;
+  try {
+    JSON.parse(text.slice(start, lineEnd));
+    return lineEnd < text.length && /\S/.test(text.slice(lineEnd));
+  } catch {
+    // First value spans lines or is broken
+  }
+
+  const ch = text[start];
+  const end = ch === '{' || ch === '[' ? findValueEnd(text, start) : lineEnd;
+  return end !== -1 && /\S/.test(text.slice(end));
+}
+
+/**
+ * Parses text holding one or more JSON values: a single document,
+ * newline-delimited JSON (JSONL/NDJSON), or concatenated (possibly
+ * pretty-printed) objects. Lines that fail to parse are skipped and reported
+ * as warnings rather than failing the whole input; a single document that
+ * fails to parse returns its syntax error instead.
+ */
+export function parseJsonDocuments(text: string): JsonDocuments {
+  try {
+    return { documents: [JSON.parse(text)], warnings: [] };
+  } catch (error) {
+    if (!isMultiDocument(text)) {
+      return { documents: [], warnings: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  const documents: any[] = [];
+  const failures: string[] = [];
+  let pos = 0;
+  // Line numbers are counted lazily, only when a failure needs one
+  let line = 1;
+  let lineCountedTo = 0;
+
+  while (pos < text.length) {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+    if (pos >= text.length) break;
+
+    const newline = text.indexOf('\n', pos);
+    const lineEnd = newline === -1 ? text.length : newline;
+
+    // Common case: one complete document per line
+    try {
+      documents.push(JSON.parse(text.slice(pos, lineEnd)));
+      pos = lineEnd;
+      continue;
+    } catch {
+      // Multi-line or concatenated value
+    }
+
+    const ch = text[pos];
+    let end = ch === '{' || ch === '[' ? findValueEnd(text, pos) : lineEnd;
+    if (end === -1) end = lineEnd;
+
+    try {
+      documents.push(JSON.parse(text.slice(pos, end)));
+      pos = end;
+    } catch (error) {
+      // A broken value can swallow the lines after it; resync on the next line
+      for (; lineCountedTo < pos; lineCountedTo++) {
+        if (text.charCodeAt(lineCountedTo) === 10) line++;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      failures.push(`Line ${line}: ${message}`);
+      pos = lineEnd;
+    }
+  }
+
+  const warnings = failures.slice(0, MAX_LINE_WARNINGS);
+  if (failures.length > MAX_LINE_WARNINGS) {
+    warnings.push(`...and ${failures.length - MAX_LINE_WARNINGS} more lines that could not be parsed`);
+  }
+
+  return { documents, warnings };
+}
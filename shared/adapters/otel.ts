@@ -0,0 +1,513 @@
+import { TraceAdapter } from './index';
+import { SLOW_THRESHOLD_MS, HEAVY_TOKEN_THRESHOLD } from './generic';
+import { TraceRun, TraceNode, NodeType, Step, FieldMapping, ParseResult, NodeMetrics, TokenUsage } from '../models';
+
+// OTLP/JSON status code for errors (exporters emit either the number or the enum name)
+const STATUS_CODE_ERROR = 2;
+
+const LLM_OPERATIONS = ['chat', 'text_completion', 'generate_content'];
+const AGENT_OPERATIONS = ['invoke_agent', 'create_agent'];
+const TOOL_CALL_FINISH_REASONS = ['tool_calls', 'tool_call', 'tool_use', 'function_call'];
+
+type SpanKind = 'llm' | 'tool' | 'agent' | 'other';
+
+interface OtelEvent {
+  name: string;
+  timeMs?: number;
+  attributes: Record<string, any>;
+}
+
+interface OtelSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind?: number | string;
+  startMs?: number;
+  endMs?: number;
+  attributes: Record<string, any>;
+  events: OtelEvent[];
+  status?: { code?: number | string; message?: string };
+  scope?: string;
+  resource: Record<string, any>;
+}
+
+/**
+ * Decodes an OTLP AnyValue ({ stringValue }, { intValue }, { arrayValue }, ...)
+ * into a plain JSON value.
+ */
+function decodeAnyValue(value: any): any {
+  if (value === null || typeof value !== 'object') return value;
+  if ('stringValue' in value) return value.stringValue;
+  if ('boolValue' in value) return value.boolValue;
+  // int64 values are serialized as strings in OTLP/JSON
+  if ('intValue' in value) return Number(value.intValue);
+  if ('doubleValue' in value) return Number(value.doubleValue);
+  if ('arrayValue' in value) return (value.arrayValue?.values || []).map(decodeAnyValue);
+  if ('kvlistValue' in value) return decodeAttributes(value.kvlistValue?.values);
+  if ('bytesValue' in value) return value.bytesValue;
+  return undefined;
+}
+
+function decodeAttributes(attributes: any): Record<string, any> {
+  if (!attributes) return {};
+  // Some exporters write attributes as a plain object instead of a KeyValue list
+  if (!Array.isArray(attributes)) {
+    return typeof attributes === 'object' ? { ...attributes } : {};
+  }
+
+  const decoded: Record<string, any> = {};
+  for (const attr of attributes) {
+    if (attr && typeof attr.key === 'string') {
+      decoded[attr.key] = decodeAnyValue(attr.value);
+    }
+  }
+  return decoded;
+}
+
+function nanosToMs(value: any): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const nanos = Number(value);
+  if (isNaN(nanos) || nanos <= 0) return undefined;
+  return nanos / 1e6;
+}
+
+/**
+ * Message attributes (gen_ai.input.messages, gen_ai.output.messages, tool
+ * arguments) are JSON-encoded strings; parse them when possible.
+ */
+function parseJsonValue(value: any): any {
+  if (typeof value !== 'string') return value;
+  const trimmed = value.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return value;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return value;
+  }
+}
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  try {
+    return JSON.stringify(value, null, 2);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Extracts readable text from the GenAI message shapes: a string, a
+ * { content } message, or a { parts: [{ type: 'text', content }] } message.
+ */
+function messageText(message: any): string {
+  if (message === null || message === undefined) return '';
+  if (typeof message === 'string') return message;
+  if (Array.isArray(message)) {
+    return message.map(messageText).filter(Boolean).join('\n');
+  }
+  if (typeof message !== 'object') return String(message);
+
+  if (Array.isArray(message.parts)) {
+    return message.parts
+      .filter((part: any) => part?.type === 'text' || typeof part?.content === 'string')
+      .map((part: any) => part.content)
+      .filter(Boolean)
+      .join('\n');
+  }
+  if (message.message) return messageText(message.message);
+  if (typeof message.content === 'string') return message.content;
+  if (Array.isArray(message.content)) return messageText(message.content);
+  if (typeof message.text === 'string') return message.text;
+  return '';
+}
+
+function collectResourceSpans(raw: any): any[] {
+  if (Array.isArray(raw)) {
+    // A list of export batches, e.g. one per flush
+    return raw.flatMap(batch => Array.isArray(batch?.resourceSpans) ? batch.resourceSpans : []);
+  }
+  return raw && Array.isArray(raw.resourceSpans) ? raw.resourceSpans : [];
+}
+
+export class OtelGenAIAdapter implements TraceAdapter {
+  id = 'otel-genai';
+  label = 'OpenTelemetry GenAI';
+
+  canHandle(raw: any): number {
+    return collectResourceSpans(raw).length > 0 ? 0.95 : 0;
+  }
+
+  normalize(raw: any, mapping?: FieldMapping): TraceRun {
+    const result = this.parse(raw, mapping);
+
+    if (!result.success || !result.trace) {
+      return {
+        id: `run-${Date.now()}`,
+        source: this.id,
+        nodes: [{
+          id: 'error-node',
+          type: 'system',
+          content: result.error || 'Failed to parse OpenTelemetry export',
+          order: 0,
+          parentId: null,
+          metadata: { error: true, warnings: result.warnings }
+        }]
+      };
+    }
+
+    return result.trace;
+  }
+
+  /**
+   * Parses an OTLP/JSON export (resourceSpans → scopeSpans → spans).
+   * Field mappings do not apply: span structure is fixed by the spec.
+   */
+  parse(raw: any, _mapping?: FieldMapping): ParseResult {
+    const warnings: string[] = [];
+
+    try {
+      if (typeof raw === 'string') {
+        try {
+          raw = JSON.parse(raw);
+        } catch {
+          return {
+            success: false,
+            error: 'Input is a string but not valid JSON. Please check the syntax.',
+            warnings
+          };
+        }
+      }
+
+      const spans = this.collectSpans(raw);
+      if (spans.length === 0) {
+        return {
+          success: false,
+          error: 'No spans found. Expected an OTLP/JSON export with resourceSpans → scopeSpans → spans.',
+          warnings,
+          detectedFormat: 'otlp'
+        };
+      }
+
+      // Chronological order; spans without a start time keep their export order at the end
+      const ordered = spans
+        .map((span, index) => ({ span, index }))
+        .sort((a, b) => {
+          const aStart = a.span.startMs ?? Infinity;
+          const bStart = b.span.startMs ?? Infinity;
+          return aStart === bStart ? a.index - b.index : aStart - bStart;
+        })
+        .map(({ span }) => span);
+
+      const spanIds = new Set(ordered.map(span => span.spanId));
+      const traceIds = Array.from(new Set(ordered.map(span => span.traceId).filter(Boolean)));
+      if (traceIds.length > 1) {
+        warnings.push(`Export contains ${traceIds.length} traces; all spans are shown together.`);
+      }
+
+      const outputSpanIds = this.findOutputSpans(ordered);
+      const nodes: TraceNode[] = [];
+      const steps: Step[] = [];
+      let orphanCount = 0;
+
+      for (const span of ordered) {
+        const hasParent = !!span.parentSpanId && spanIds.has(span.parentSpanId);
+        if (span.parentSpanId && !hasParent) {
+          orphanCount++;
+        }
+
+        for (const node of this.buildNodes(span, hasParent ? span.parentSpanId! : null, outputSpanIds)) {
+          node.order = nodes.length;
+          nodes.push(node);
+          steps.push({
+            id: node.id,
+            parent_id: node.parentId,
+            type: node.type,
+            content: node.content,
+            timestamp: node.timestamp ? new Date(node.timestamp).toISOString() : undefined,
+            raw: span
+          });
+        }
+      }
+
+      if (orphanCount > 0) {
+        warnings.push(`${orphanCount} span(s) reference a parent that is not in the export; they are shown as roots.`);
+      }
+
+      return {
+        success: true,
+        trace: {
+          id: traceIds[0] || `run-${Date.now()}`,
+          source: this.id,
+          nodes
+        },
+        steps,
+        warnings: warnings.length > 0 ? warnings : undefined,
+        detectedFormat: 'otlp'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Unexpected error during parsing: ${error instanceof Error ? error.message : String(error)}`,
+        warnings
+      };
+    }
+  }
+
+  private collectSpans(raw: any): OtelSpan[] {
+    const spans: OtelSpan[] = [];
+
+    for (const resourceSpan of collectResourceSpans(raw)) {
+      const resource = decodeAttributes(resourceSpan?.resource?.attributes);
+      // instrumentationLibrarySpans is the pre-1.0 name of scopeSpans
+      const scopeSpans = resourceSpan?.scopeSpans || resourceSpan?.instrumentationLibrarySpans || [];
+
+      for (const scopeSpan of scopeSpans) {
+        const scope = scopeSpan?.scope?.name || scopeSpan?.instrumentationLibrary?.name;
+
+        for (const span of scopeSpan?.spans || []) {
+          if (!span || !span.spanId) continue;
+          spans.push({
+            traceId: span.traceId,
+            spanId: span.spanId,
+            parentSpanId: span.parentSpanId || undefined,
+            name: span.name || 'span',
+            kind: span.kind,
+            startMs: nanosToMs(span.startTimeUnixNano),
+            endMs: nanosToMs(span.endTimeUnixNano),
+            attributes: decodeAttributes(span.attributes),
+            events: (span.events || []).map((event: any) => ({
+              name: event?.name || '',
+              timeMs: nanosToMs(event?.timeUnixNano),
+              attributes: decodeAttributes(event?.attributes)
+            })),
+            status: span.status,
+            scope,
+            resource
+          });
+        }
+      }
+    }
+
+    return spans;
+  }
+
+  private classify(span: OtelSpan): SpanKind {
+    const operation = span.attributes['gen_ai.operation.name'];
+    if (operation === 'execute_tool' || span.attributes['gen_ai.tool.name']) return 'tool';
+    if (LLM_OPERATIONS.includes(operation)) return 'llm';
+    if (AGENT_OPERATIONS.includes(operation) || span.attributes['gen_ai.agent.name']) return 'agent';
+    // Older instrumentations set a model and usage but no operation name
+    if (span.attributes['gen_ai.request.model'] || span.attributes['gen_ai.response.model']) return 'llm';
+    return 'other';
+  }
+
+  /**
+   * The final answer of each trace is its last model call that did not stop
+   * to request tools; every other model call is an intermediate thought.
+   */
+  private findOutputSpans(spans: OtelSpan[]): Set<string> {
+    const lastByTrace = new Map<string, OtelSpan>();
+    for (const span of spans) {
+      if (this.classify(span) !== 'llm') continue;
+      const current = lastByTrace.get(span.traceId);
+      if (!current || (span.endMs ?? span.startMs ?? 0) >= (current.endMs ?? current.startMs ?? 0)) {
+        lastByTrace.set(span.traceId, span);
+      }
+    }
+
+    const outputs = new Set<string>();
+    lastByTrace.forEach(span => {
+      const finishReasons = this.finishReasons(span);
+      if (!finishReasons.some(reason => TOOL_CALL_FINISH_REASONS.includes(reason))) {
+        outputs.add(span.spanId);
+      }
+    });
+    return outputs;
+  }
+
+  private buildNodes(span: OtelSpan, parentId: string | null, outputSpanIds: Set<string>): TraceNode[] {
+    const kind = this.classify(span);
+    const metrics = this.buildMetrics(span);
+    const hasError = metrics.hasError === true;
+    const errorFlags = hasError ? { error: true, status: 'error' } : {};
+    const baseMetadata = {
+      spanName: span.name,
+      spanId: span.spanId,
+      traceId: span.traceId,
+      scope: span.scope,
+      operation: span.attributes['gen_ai.operation.name'],
+      attributes: span.attributes,
+      events: span.events.length > 0 ? span.events : undefined,
+      resource: span.resource
+    };
+
+    if (kind === 'tool') {
+      const toolName = span.attributes['gen_ai.tool.name'] || span.name;
+      const args = parseJsonValue(span.attributes['gen_ai.tool.call.arguments']);
+      const result = parseJsonValue(span.attributes['gen_ai.tool.call.result']);
+      // A failed call always gets an observation, which carries the error
+      const actionMetrics: NodeMetrics = { ...metrics };
+      delete actionMetrics.hasError;
+      delete actionMetrics.errorMessage;
+
+      const action: TraceNode = {
+        id: span.spanId,
+        type: 'action',
+        content: args !== undefined ? `${toolName}\n${formatValue(args)}` : toolName,
+        timestamp: span.startMs,
+        parentId,
+        metadata: {
+          ...baseMetadata,
+          tool: toolName,
+          tool_input: args,
+          tool_call_id: span.attributes['gen_ai.tool.call.id']
+        },
+        metrics: Object.keys(actionMetrics).length > 0 ? actionMetrics : undefined
+      };
+
+      if (result === undefined && !hasError) {
+        return [action];
+      }
+
+      // Tool results become their own observation so the analyzer sees the action → observation
+      // pair; the error flags live there rather than on the action
+      const observation: TraceNode = {
+        id: `${span.spanId}-result`,
+        type: 'observation',
+        content: result !== undefined ? formatValue(result) : metrics.errorMessage || 'Tool call failed',
+        timestamp: span.endMs,
+        parentId: span.spanId,
+        metadata: {
+          tool: toolName,
+          tool_output: result,
+          tool_call_id: span.attributes['gen_ai.tool.call.id'],
+          ...errorFlags
+        },
+        metrics: hasError ? { hasError: true, errorMessage: metrics.errorMessage } : undefined
+      };
+      return [action, observation];
+    }
+
+    if (kind === 'llm') {
+      const inputMessages = parseJsonValue(span.attributes['gen_ai.input.messages']);
+      const outputText = this.outputText(span);
+      return [{
+        id: span.spanId,
+        type: outputSpanIds.has(span.spanId) ? 'output' : 'thought',
+        content: outputText || span.name,
+        timestamp: span.startMs,
+        parentId,
+        metadata: {
+          ...baseMetadata,
+          ...errorFlags,
+          provider: span.attributes['gen_ai.provider.name'] || span.attributes['gen_ai.system'],
+          model: metrics.modelName,
+          finishReasons: this.finishReasons(span),
+          input: inputMessages,
+          output: parseJsonValue(span.attributes['gen_ai.output.messages'])
+        },
+        metrics
+      }];
+    }
+
+    const type: NodeType = kind === 'agent' ? 'system' : 'other';
+    const agentName = span.attributes['gen_ai.agent.name'];
+    return [{
+      id: span.spanId,
+      type,
+      content: agentName ? `${agentName}${span.attributes['gen_ai.agent.description'] ? `\n${span.attributes['gen_ai.agent.description']}` : ''}` : span.name,
+      timestamp: span.startMs,
+      parentId,
+      metadata: { ...baseMetadata, ...errorFlags },
+      metrics
+    }];
+  }
+
+  private outputText(span: OtelSpan): string {
+    const attrs = span.attributes;
+
+    const outputMessages = parseJsonValue(attrs['gen_ai.output.messages']);
+    if (outputMessages !== undefined) {
+      const text = messageText(outputMessages);
+      if (text) return text;
+    }
+
+    // Legacy indexed attributes (gen_ai.completion.0.content)
+    const completion = attrs['gen_ai.completion.0.content'];
+    if (typeof completion === 'string' && completion) return completion;
+
+    // Legacy per-message events (gen_ai.choice carries the response)
+    const choice = span.events.find(event => event.name === 'gen_ai.choice');
+    if (choice) {
+      const text = messageText(parseJsonValue(choice.attributes.message ?? choice.attributes.body ?? choice.attributes));
+      if (text) return text;
+    }
+
+    return '';
+  }
+
+  private finishReasons(span: OtelSpan): string[] {
+    const reasons = span.attributes['gen_ai.response.finish_reasons'];
+    if (Array.isArray(reasons)) return reasons.map(String);
+    if (typeof reasons === 'string') {
+      const parsed = parseJsonValue(reasons);
+      return Array.isArray(parsed) ? parsed.map(String) : [reasons];
+    }
+    return [];
+  }
+
+  private buildMetrics(span: OtelSpan): NodeMetrics {
+    const attrs = span.attributes;
+    const metrics: NodeMetrics = {};
+
+    if (span.startMs !== undefined) metrics.startTime = span.startMs;
+    if (span.endMs !== undefined) metrics.endTime = span.endMs;
+    if (span.startMs !== undefined && span.endMs !== undefined) {
+      metrics.durationMs = Math.max(0, span.endMs - span.startMs);
+    }
+
+    const usage: TokenUsage = {};
+    const input = attrs['gen_ai.usage.input_tokens'] ?? attrs['gen_ai.usage.prompt_tokens'];
+    const output = attrs['gen_ai.usage.output_tokens'] ?? attrs['gen_ai.usage.completion_tokens'];
+    const total = attrs['gen_ai.usage.total_tokens'];
+    if (input !== undefined && !isNaN(Number(input))) usage.prompt = Number(input);
+    if (output !== undefined && !isNaN(Number(output))) usage.completion = Number(output);
+    if (total !== undefined && !isNaN(Number(total))) {
+      usage.total = Number(total);
+    } else if (usage.prompt !== undefined || usage.completion !== undefined) {
+      usage.total = (usage.prompt ?? 0) + (usage.completion ?? 0);
+    }
+    if (usage.total !== undefined) {
+      metrics.tokenUsage = usage;
+    }
+
+    const model = attrs['gen_ai.response.model'] || attrs['gen_ai.request.model'];
+    if (typeof model === 'string') {
+      metrics.modelName = model;
+    }
+
+    const statusCode = span.status?.code;
+    if (statusCode === STATUS_CODE_ERROR || statusCode === 'STATUS_CODE_ERROR') {
+      metrics.hasError = true;
+      const exception = span.events.find(event => event.name === 'exception');
+      const message = span.status?.message
+        || exception?.attributes['exception.message']
+        || attrs['error.type'];
+      if (message) {
+        metrics.errorMessage = String(message);
+      }
+    }
+
+    if (metrics.durationMs !== undefined && metrics.durationMs > SLOW_THRESHOLD_MS) {
+      metrics.isSlow = true;
+    }
+    if (metrics.tokenUsage?.total !== undefined && metrics.tokenUsage.total > HEAVY_TOKEN_THRESHOLD) {
+      metrics.isTokenHeavy = true;
+    }
+
+    return metrics;
+  }
+}
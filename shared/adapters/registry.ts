@@ -0,0 +1,138 @@
+import { TraceAdapter } from './index';
+import { GenericAdapter } from './generic';
+import { OtelGenAIAdapter } from './otel';
+import { AnthropicAdapter } from './anthropic';
+import { parseJsonDocuments } from './ndjson';
+import { TraceRun, FieldMapping, ParseResult, RunSplit } from '../models';
+
+export const GENERIC_ADAPTER_ID = 'generic';
+
+const genericAdapter = new GenericAdapter();
+
+/**
+ * Registered adapters in tie-break order: when two adapters report the same
+ * confidence, the one listed first wins. GenericAdapter goes last as the fallback.
+ */
+const adapters: TraceAdapter[] = [
+  new OtelGenAIAdapter(),
+  new AnthropicAdapter(),
+  genericAdapter,
+];
+
+export interface AdapterMatch {
+  adapter: TraceAdapter;
+  confidence: number;
+}
+
+export interface AdapterParseOptions {
+  mapping?: FieldMapping;
+  /** Skip detection and use this adapter */
+  adapterId?: string;
+}
+
+export function registerAdapter(adapter: TraceAdapter): void {
+  const existing = adapters.findIndex(a => a.id === adapter.id);
+  if (existing !== -1) {
+    adapters[existing] = adapter;
+    return;
+  }
+  // Keep the generic fallback last
+  adapters.splice(adapters.length - 1, 0, adapter);
+}
+
+export function listAdapters(): TraceAdapter[] {
+  return [...adapters];
+}
+
+export function getAdapter(id: string): TraceAdapter | undefined {
+  return adapters.find(a => a.id === id);
+}
+
+/**
+ * Decodes string input (JSON, JSONL/NDJSON or concatenated documents) so
+ * adapters can rank it. Multiple documents become an array, one per line.
+ */
+function decodeInput(raw: any): { input: any; warnings: string[] } {
+  if (typeof raw !== 'string') return { input: raw, warnings: [] };
+  const { documents, warnings } = parseJsonDocuments(raw);
+  if (documents.length === 0) {
+    // Let the adapter report the syntax error
+    return { input: raw, warnings };
+  }
+  return { input: documents.length === 1 ? documents[0] : documents, warnings };
+}
+
+/**
+ * Ranks every registered adapter by its canHandle confidence, best first.
+ */
+export function rankAdapters(raw: any): AdapterMatch[] {
+  const { input } = decodeInput(raw);
+  return adapters
+    .map((adapter, index) => {
+      let confidence = 0;
+      try {
+        confidence = adapter.canHandle ? adapter.canHandle(input) : 0;
+      } catch {
+        confidence = 0;
+      }
+      return { adapter, confidence, index };
+    })
+    .sort((a, b) => b.confidence - a.confidence || a.index - b.index)
+    .map(({ adapter, confidence }) => ({ adapter, confidence }));
+}
+
+export function detectAdapter(raw: any): TraceAdapter {
+  const [best] = rankAdapters(raw);
+  return best && best.confidence > 0 ? best.adapter : getAdapter(GENERIC_ADAPTER_ID)!;
+}
+
+/**
+ * Parses with the requested adapter, or the best-ranked one, and records
+ * the adapter id on TraceRun.source.
+ */
+export function parseTrace(raw: any, options: AdapterParseOptions = {}): ParseResult {
+  const requested = options.adapterId ? getAdapter(options.adapterId) : undefined;
+  if (options.adapterId && !requested) {
+    return {
+      success: false,
+      error: `Unknown adapter "${options.adapterId}". Available: ${adapters.map(a => a.id).join(', ')}`,
+    };
+  }
+
+  const { input, warnings: lineWarnings } = decodeInput(raw);
+  const adapter = requested ?? detectAdapter(input);
+  const result: ParseResult = adapter.parse
+    ? adapter.parse(input, options.mapping)
+    : { success: true, trace: adapter.normalize(input, options.mapping) };
+
+  if (result.trace) {
+    result.trace = { ...result.trace, source: adapter.id };
+  }
+  // Skipped lines are reported alongside the adapter's own warnings
+  const warnings = [...lineWarnings, ...(result.warnings || [])];
+  return { ...result, warnings: warnings.length > 0 ? warnings : undefined, adapterId: adapter.id };
+}
+
+/**
+ * Like parseTrace, but always returns a TraceRun (adapters render parse
+ * failures as an error node).
+ */
+export function normalizeTrace(raw: any, options: AdapterParseOptions = {}): TraceRun {
+  const { input } = decodeInput(raw);
+  const adapter = (options.adapterId && getAdapter(options.adapterId)) || detectAdapter(input);
+  const trace = adapter.normalize(input, options.mapping);
+  return { ...trace, source: adapter.id };
+}
+
+/**
+ * Splits a log holding many runs (grouped by run_id, thread_id or
+ * session_id) into separate TraceRuns. Only generic logs are split; the
+ * dedicated formats describe a single run. Returns null when there is
+ * nothing to split.
+ */
+export function splitTraceRuns(raw: any, options: AdapterParseOptions = {}): RunSplit | null {
+  if (options.adapterId && options.adapterId !== GENERIC_ADAPTER_ID) return null;
+  const { input } = decodeInput(raw);
+  if (!options.adapterId && detectAdapter(input) !== genericAdapter) return null;
+  return genericAdapter.splitRuns(input, options.mapping);
+}
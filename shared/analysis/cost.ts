@@ -0,0 +1,182 @@
+/**
+ * Cost - Turns token usage into an estimated spend
+ *
+ * Prices are USD per million tokens and keyed by model name globs
+ * ("gpt-4o-mini*"); the first matching entry wins, so specific patterns go
+ * before general ones. Steps without a model name are priced with the model
+ * the rest of the trace uses most. Prompt-cache reads and writes are priced
+ * at their own rates, by default 10% and 125% of the input price (Anthropic's
+ * list pricing). The table ships with list prices at the
+ * time of writing and is overridden with `pricing` in the analyzer config.
+ */
+
+import { z } from 'zod';
+import type { TraceNode, TokenUsage, CostSummary } from '../models';
+import type { StepLabels } from './trace-analyzer';
+import { globToRegExp } from './matching';
+
+export const modelPriceSchema = z.object({
+  /** Model name glob, matched case-insensitively, e.g. "claude-3-5-sonnet*" */
+  pattern: z.string().min(1),
+  inputPerMillion: z.number().nonnegative(),
+  outputPerMillion: z.number().nonnegative(),
+  cacheReadPerMillion: z.number().nonnegative().optional(),
+  cacheWritePerMillion: z.number().nonnegative().optional()
+}).strict();
+
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+
+export const DEFAULT_PRICING: ModelPrice[] = [
+  { pattern: 'gpt-4o-mini*', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  { pattern: 'gpt-4o*', inputPerMillion: 2.5, outputPerMillion: 10 },
+  { pattern: 'gpt-4.1-nano*', inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  { pattern: 'gpt-4.1-mini*', inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  { pattern: 'gpt-4.1*', inputPerMillion: 2, outputPerMillion: 8 },
+  { pattern: 'gpt-4-turbo*', inputPerMillion: 10, outputPerMillion: 30 },
+  { pattern: 'gpt-4*', inputPerMillion: 30, outputPerMillion: 60 },
+  { pattern: 'gpt-3.5-turbo*', inputPerMillion: 0.5, outputPerMillion: 1.5 },
+  { pattern: 'o1-mini*', inputPerMillion: 1.1, outputPerMillion: 4.4 },
+  { pattern: 'o3-mini*', inputPerMillion: 1.1, outputPerMillion: 4.4 },
+  { pattern: 'o1*', inputPerMillion: 15, outputPerMillion: 60 },
+  { pattern: 'claude-3-haiku*', inputPerMillion: 0.25, outputPerMillion: 1.25 },
+  { pattern: 'claude-3-5-haiku*', inputPerMillion: 0.8, outputPerMillion: 4 },
+  { pattern: 'claude*opus*', inputPerMillion: 15, outputPerMillion: 75 },
+  { pattern: 'claude*sonnet*', inputPerMillion: 3, outputPerMillion: 15 },
+  { pattern: 'gemini-1.5-flash*', inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  { pattern: 'gemini-1.5-pro*', inputPerMillion: 1.25, outputPerMillion: 5 },
+  { pattern: 'gemini-2.0-flash*', inputPerMillion: 0.1, outputPerMillion: 0.4 }
+];
+
+// Compiled once per price entry; entries live as long as the resolved rules
+const compiledPatterns = new WeakMap<ModelPrice, RegExp>();
+
+function pricePattern(price: ModelPrice): RegExp {
+  let pattern = compiledPatterns.get(price);
+  if (!pattern) {
+    pattern = globToRegExp(price.pattern);
+    compiledPatterns.set(price, pattern);
+  }
+  return pattern;
+}
+
+export function findModelPrice(modelName: string, pricing: ModelPrice[]): ModelPrice | undefined {
+  // Provider prefixes such as "openai/gpt-4o" or "anthropic.claude-3-haiku"
+  const name = modelName.replace(/^[\w-]+[/.:](?=[a-z])/i, '');
+  return pricing.find(price => {
+    const pattern = pricePattern(price);
+    return pattern.test(name) || pattern.test(modelName);
+  });
+}
+
+/** Prompt-cache prices as a share of the input price, when an entry does not set them */
+export const DEFAULT_CACHE_READ_RATE = 0.1;
+export const DEFAULT_CACHE_WRITE_RATE = 1.25;
+
+/**
+ * Cost in USD of one call. When only a total is known it is priced at the
+ * average of the input and output rates.
+ */
+export function estimateCost(usage: TokenUsage, price: ModelPrice): number {
+  if (usage.prompt !== undefined || usage.completion !== undefined || usage.cacheRead !== undefined || usage.cacheWrite !== undefined) {
+    const cacheReadPerMillion = price.cacheReadPerMillion ?? price.inputPerMillion * DEFAULT_CACHE_READ_RATE;
+    const cacheWritePerMillion = price.cacheWritePerMillion ?? price.inputPerMillion * DEFAULT_CACHE_WRITE_RATE;
+    return (
+      (usage.prompt || 0) * price.inputPerMillion +
+      (usage.completion || 0) * price.outputPerMillion +
+      (usage.cacheRead || 0) * cacheReadPerMillion +
+      (usage.cacheWrite || 0) * cacheWritePerMillion
+    ) / 1_000_000;
+  }
+  return ((usage.total || 0) * (price.inputPerMillion + price.outputPerMillion) / 2) / 1_000_000;
+}
+
+/**
+ * Name of the tool a step belongs to: its own, or for observations that of
+ * their parent action or the action just before them. Reasoning and answers
+ * get a label of their own.
+ */
+function toolBranches(nodes: TraceNode[], labels: Map<string, StepLabels>): Map<string, string> {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const branches = new Map<string, string>();
+  let lastActionTool: string | undefined;
+
+  for (const node of nodes) {
+    let tool = labels.get(node.id)?.toolName;
+    if (!tool && node.type === 'observation') {
+      const parent = node.parentId ? byId.get(node.parentId) : undefined;
+      tool = parent?.type === 'action' ? labels.get(parent.id)?.toolName : lastActionTool;
+    }
+    if (node.type === 'action') lastActionTool = tool;
+
+    branches.set(node.id, tool || (node.type === 'thought' ? '(reasoning)' : node.type === 'output' ? '(final answer)' : '(other)'));
+  }
+
+  return branches;
+}
+
+/**
+ * Cost of each node plus per-tool and per-run totals.
+ */
+export function computeCosts(
+  nodes: TraceNode[],
+  labels: Map<string, StepLabels>,
+  pricing: ModelPrice[]
+): { byNode: Map<string, number>; summary: CostSummary } {
+  const byNode = new Map<string, number>();
+  const unpriced = new Set<string>();
+
+  // Steps often carry usage but not the model; assume the trace's main model
+  const modelCounts = new Map<string, number>();
+  nodes.forEach(node => {
+    const model = node.metrics?.modelName;
+    if (model) modelCounts.set(model, (modelCounts.get(model) || 0) + 1);
+  });
+  const defaultModel = Array.from(modelCounts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  for (const node of nodes) {
+    const usage = node.metrics?.tokenUsage;
+    if (!usage || !(usage.total || usage.prompt || usage.completion || usage.cacheRead || usage.cacheWrite)) continue;
+    const model = node.metrics?.modelName || defaultModel;
+    const price = model ? findModelPrice(model, pricing) : undefined;
+    if (!price) {
+      unpriced.add(model || '(unknown model)');
+      continue;
+    }
+    byNode.set(node.id, estimateCost(usage, price));
+  }
+
+  const branches = toolBranches(nodes, labels);
+  const byTool = new Map<string, { costUsd: number; nodeCount: number }>();
+  byNode.forEach((cost, nodeId) => {
+    const tool = branches.get(nodeId) || '(other)';
+    const entry = byTool.get(tool) || { costUsd: 0, nodeCount: 0 };
+    entry.costUsd += cost;
+    entry.nodeCount++;
+    byTool.set(tool, entry);
+  });
+
+  let totalUsd = 0;
+  byNode.forEach(cost => { totalUsd += cost; });
+
+  return {
+    byNode,
+    summary: {
+      totalUsd,
+      pricedNodes: byNode.size,
+      byTool: Array.from(byTool.entries())
+        .map(([tool, entry]) => ({ tool, ...entry }))
+        .sort((a, b) => b.costUsd - a.costUsd),
+      unpricedModels: Array.from(unpriced)
+    }
+  };
+}
+
+/**
+ * "$1.24", or two significant digits for fractions of a cent ("$0.00031").
+ */
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0';
+  if (usd >= 0.01) return `$${usd.toFixed(2)}`;
+  if (usd < 0.00001) return '<$0.00001';
+  return `$${usd.toFixed(-Math.floor(Math.log10(usd)) + 1)}`;
+}
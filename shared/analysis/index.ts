@@ -1 +1,5 @@
 export * from './trace-analyzer';
+export * from './rules';
+export * from './redaction';
+export * from './cost';
+export * from './matching';
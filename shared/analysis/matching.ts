@@ -0,0 +1,37 @@
+/**
+ * Matching - Glob, regex and number helpers shared by the detectors, trace
+ * rules, pricing table and search
+ */
+
+/**
+ * Case-insensitive, whole-string match for a glob with `*` and `?` wildcards.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+export function isValidRegex(source: string): boolean {
+  try {
+    new RegExp(source, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Canonical form of a number so that "$1,200", "1200" and "1200.00" compare
+ * equal. Text that is not a number is returned unchanged.
+ */
+export function normalizeNumber(value: string): string {
+  const parsed = Number(value.replace(/[$€£,\s]/g, ''));
+  return isNaN(parsed) ? value : String(parsed);
+}
+
+/**
+ * Every number in the text, normalized.
+ */
+export function extractNumbers(text: string): string[] {
+  return (text.match(/-?\d[\d,]*(?:\.\d+)?/g) || []).map(normalizeNumber);
+}
@@ -0,0 +1,171 @@
+/**
+ * Redaction - Finds secrets and personal data in traces and replaces them
+ *
+ * Detects API keys and tokens, emails, card numbers, US social security
+ * numbers and phone numbers. Redaction swaps each distinct value for a
+ * placeholder such as `<EMAIL_1>`; the same value always gets the same
+ * placeholder within one redactor, so a trace still shows that step 7 used
+ * the email step 2 returned.
+ */
+
+import type { TraceNode } from '../models';
+
+export type SensitiveKind = 'secret' | 'email' | 'card' | 'ssn' | 'phone';
+
+export interface SensitiveFinding {
+  kind: SensitiveKind;
+  value: string;
+}
+
+export const SENSITIVE_KIND_LABELS: Record<SensitiveKind, string> = {
+  secret: 'API key/secret',
+  email: 'email address',
+  card: 'card number',
+  ssn: 'social security number',
+  phone: 'phone number'
+};
+
+const PLACEHOLDER_NAMES: Record<SensitiveKind, string> = {
+  secret: 'SECRET',
+  email: 'EMAIL',
+  card: 'CARD',
+  ssn: 'SSN',
+  phone: 'PHONE'
+};
+
+// Checked in order, so a card number is not also read as a phone number
+const SENSITIVE_PATTERNS: Array<{ kind: SensitiveKind; pattern: RegExp; validate?: (match: string) => boolean }> = [
+  { kind: 'secret', pattern: /\b(?:sk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35})\b/g },
+  { kind: 'secret', pattern: /(?<=\bBearer\s+)[A-Za-z0-9._~+/-]{20,}=*/g },
+  { kind: 'secret', pattern: /(?<=\b(?:api[_-]?key|secret|password|passwd|access[_-]?token|auth[_-]?token)["']?\s*[:=]\s*["']?)(?!<[A-Z]+_\d+>)[^\s"',;&]{8,}/gi },
+  { kind: 'email', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}\b/gi },
+  // Leading 2-6 covers the card networks and skips millisecond timestamps
+  { kind: 'card', pattern: /\b[2-6]\d{3}(?:[ -]?\d){9,15}\b/g, validate: isLuhnValid },
+  { kind: 'ssn', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  { kind: 'phone', pattern: /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)\s?|\d{3}[\s.-])\d{3}[\s.-]\d{4}\b|\+\d{1,3}(?:[\s.-]\d{2,4}){2,4}\b/g }
+];
+
+// Object keys whose string values are secrets whatever they look like
+const SECRET_KEYS = /^(api[_-]?key|apikey|secret|client[_-]?secret|password|passwd|token|access[_-]?token|refresh[_-]?token|auth[_-]?token|authorization|x-api-key)$/i;
+
+function isLuhnValid(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Replaces every sensitive value in a string; `replace` receives the kind and
+ * the matched value and returns the text to put in its place.
+ */
+function replaceSensitive(text: string, replace: (kind: SensitiveKind, value: string) => string): string {
+  let result = text;
+  for (const { kind, pattern, validate } of SENSITIVE_PATTERNS) {
+    result = result.replace(pattern, match => (validate && !validate(match) ? match : replace(kind, match)));
+  }
+  return result;
+}
+
+function isSecretKey(key: string | undefined, value: string): boolean {
+  return !!key && SECRET_KEYS.test(key) && value.length >= 8 && !/^<[A-Z]+_\d+>$/.test(value);
+}
+
+/**
+ * Sensitive values in a string, or in every string of an object or array.
+ */
+export function findSensitiveData(value: unknown, key?: string, findings: SensitiveFinding[] = []): SensitiveFinding[] {
+  if (typeof value === 'string') {
+    if (isSecretKey(key, value)) {
+      findings.push({ kind: 'secret', value });
+    } else {
+      replaceSensitive(value, (kind, match) => {
+        findings.push({ kind, value: match });
+        return match;
+      });
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach(item => findSensitiveData(item, key, findings));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([childKey, child]) => findSensitiveData(child, childKey, findings));
+  }
+  return findings;
+}
+
+/**
+ * Whether a string (optionally under an object key) is a credential rather than data.
+ */
+export function looksLikeSecret(value: string, key?: string): boolean {
+  return (!!key && SECRET_KEYS.test(key)) || findSensitiveData(value).some(finding => finding.kind === 'secret');
+}
+
+/**
+ * Findings in a node's content, metadata and LangGraph state, by field.
+ */
+export function scanNode(node: TraceNode): Array<SensitiveFinding & { field: 'content' | 'metadata' | 'langGraphDetails' }> {
+  return [
+    ...findSensitiveData(node.content).map(finding => ({ ...finding, field: 'content' as const })),
+    ...findSensitiveData(node.metadata).map(finding => ({ ...finding, field: 'metadata' as const })),
+    ...findSensitiveData(node.langGraphDetails).map(finding => ({ ...finding, field: 'langGraphDetails' as const }))
+  ];
+}
+
+export interface Redactor {
+  /** Returns a copy of the value with sensitive strings replaced */
+  redact<T>(value: T): T;
+  /** Number of distinct values replaced so far */
+  readonly count: number;
+}
+
+/**
+ * Creates a redactor whose placeholders stay consistent across every value
+ * passed to it. Redact the raw payload before parsing so the stored payload
+ * and every node derived from it agree.
+ */
+export function createRedactor(): Redactor {
+  const placeholders = new Map<string, string>();
+  const counters = {} as Record<SensitiveKind, number>;
+
+  const placeholderFor = (kind: SensitiveKind, value: string): string => {
+    const id = `${kind}:${value}`;
+    let placeholder = placeholders.get(id);
+    if (!placeholder) {
+      counters[kind] = (counters[kind] || 0) + 1;
+      placeholder = `<${PLACEHOLDER_NAMES[kind]}_${counters[kind]}>`;
+      placeholders.set(id, placeholder);
+    }
+    return placeholder;
+  };
+
+  const redactValue = (value: any, key?: string): any => {
+    if (typeof value === 'string') {
+      return isSecretKey(key, value) ? placeholderFor('secret', value) : replaceSensitive(value, placeholderFor);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => redactValue(item, key));
+    }
+    if (value && typeof value === 'object') {
+      const result: Record<string, any> = {};
+      for (const [childKey, child] of Object.entries(value)) {
+        result[childKey] = redactValue(child, childKey);
+      }
+      return result;
+    }
+    return value;
+  };
+
+  return {
+    redact: <T>(value: T): T => redactValue(value),
+    get count() {
+      return placeholders.size;
+    }
+  };
+}
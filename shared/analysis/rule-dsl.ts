@@ -0,0 +1,295 @@
+/**
+ * Trace Rules - A small declarative language for trace assertions
+ *
+ * Each rule selects nodes with `match` and checks them against `assert`.
+ * A rule without `assert` flags every matching node. Rules are plain
+ * JSON/YAML, e.g.:
+ *
+ *   - id: refund-needs-lookup
+ *     title: Refund without order lookup
+ *     severity: error
+ *     match: { type: action, tool: "refund_*" }
+ *     assert:
+ *       precededBy: { match: { type: observation, tool: lookup_order }, within: 3 }
+ *
+ *   - id: grounded-numbers
+ *     title: Number in output not seen in any observation
+ *     match: { type: output }
+ *     assert:
+ *       numbersFrom: { match: { type: observation } }
+ *
+ * Each rule is compiled into a detector reporting issues of type `rule:<id>`.
+ */
+
+import { z } from 'zod';
+import type { TraceNode, TraceIssue, RiskLevel } from '../models';
+import type { DetectorDefinition, StepLabels } from './trace-analyzer';
+import { extractNumbers, globToRegExp, isValidRegex } from './matching';
+
+const NODE_TYPES = ['thought', 'action', 'observation', 'output', 'system', 'other'] as const;
+
+// Numbers below this are usually list markers or step counts rather than facts
+const DEFAULT_IGNORE_NUMBERS_BELOW = 10;
+
+// Rules run after the built-in detectors
+const RULE_PRIORITY_BASE = 1000;
+
+const stringOrList = z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]);
+
+export const nodeSelectorSchema = z.object({
+  type: z.union([z.enum(NODE_TYPES), z.array(z.enum(NODE_TYPES)).min(1)]).optional(),
+  /** Tool name glob(s), e.g. "refund_*"; observations inherit the tool of their action */
+  tool: stringOrList.optional(),
+  /** Regular expression tested against the node content (case-insensitive) */
+  content: z.string().refine(isValidRegex, { message: 'Invalid regular expression' }).optional(),
+  error: z.boolean().optional(),
+  empty: z.boolean().optional()
+}).strict();
+
+const sequenceAssertionSchema = z.object({
+  match: nodeSelectorSchema,
+  /** Only look this many steps away; the whole trace when omitted */
+  within: z.number().int().positive().optional()
+}).strict();
+
+export const traceRuleSchema = z.object({
+  id: z.string().min(1).regex(/^[\w.-]+$/, 'Use letters, digits, "_", "." or "-"'),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  severity: z.enum(['warning', 'error']).default('warning'),
+  /** Defaults to high for errors and medium for warnings */
+  risk: z.enum(['low', 'medium', 'high']).optional(),
+  suggestion: z.string().optional(),
+  match: nodeSelectorSchema,
+  assert: z.object({
+    precededBy: sequenceAssertionSchema.optional(),
+    followedBy: sequenceAssertionSchema.optional(),
+    notPrecededBy: sequenceAssertionSchema.optional(),
+    notFollowedBy: sequenceAssertionSchema.optional(),
+    parent: nodeSelectorSchema.optional(),
+    child: nodeSelectorSchema.optional(),
+    /** Every number in the node must appear in an earlier node matching `match` */
+    numbersFrom: z.object({
+      match: nodeSelectorSchema,
+      ignoreBelow: z.number().nonnegative().optional()
+    }).strict().optional()
+  }).strict().optional()
+}).strict();
+
+export type NodeSelector = z.infer<typeof nodeSelectorSchema>;
+export type TraceRule = z.input<typeof traceRuleSchema>;
+type ParsedTraceRule = z.output<typeof traceRuleSchema>;
+
+interface RuleContext {
+  nodes: TraceNode[];
+  labels: Map<string, StepLabels>;
+  byId: Map<string, TraceNode>;
+  tools: Map<string, string | undefined>;
+}
+
+/**
+ * Tool name of each node. Observations rarely carry one, so they take the
+ * tool of their parent action, or of the closest action before them.
+ */
+function resolveTools(nodes: TraceNode[], labels: Map<string, StepLabels>, byId: Map<string, TraceNode>): Map<string, string | undefined> {
+  const tools = new Map<string, string | undefined>();
+  let lastActionTool: string | undefined;
+
+  for (const node of nodes) {
+    let tool = labels.get(node.id)?.toolName;
+    if (!tool && node.type === 'observation') {
+      const parent = node.parentId ? byId.get(node.parentId) : undefined;
+      tool = parent?.type === 'action' ? labels.get(parent.id)?.toolName : lastActionTool;
+    }
+    if (node.type === 'action') lastActionTool = tool;
+    tools.set(node.id, tool);
+  }
+
+  return tools;
+}
+
+function compileSelector(selector: NodeSelector): (node: TraceNode, context: RuleContext) => boolean {
+  const types = selector.type === undefined ? undefined : Array.isArray(selector.type) ? selector.type : [selector.type];
+  const tools = selector.tool === undefined
+    ? undefined
+    : (Array.isArray(selector.tool) ? selector.tool : [selector.tool]).map(globToRegExp);
+  const content = selector.content !== undefined ? new RegExp(selector.content, 'i') : undefined;
+
+  return (node, context) => {
+    if (types && !types.includes(node.type)) return false;
+    if (tools) {
+      const tool = context.tools.get(node.id);
+      if (!tool || !tools.some(pattern => pattern.test(tool))) return false;
+    }
+    if (content && !content.test(node.content || '')) return false;
+    const labels = context.labels.get(node.id);
+    if (selector.error !== undefined && !!labels?.isErrorObservation !== selector.error) return false;
+    if (selector.empty !== undefined && !!labels?.isEmptyResult !== selector.empty) return false;
+    return true;
+  };
+}
+
+/**
+ * Finds a node matching `test` before (direction -1) or after (+1) index.
+ */
+function findInSequence(
+  context: RuleContext,
+  index: number,
+  direction: 1 | -1,
+  within: number | undefined,
+  test: (node: TraceNode, context: RuleContext) => boolean
+): TraceNode | undefined {
+  const limit = within ?? context.nodes.length;
+  for (let step = 1; step <= limit; step++) {
+    const node = context.nodes[index + direction * step];
+    if (!node) return undefined;
+    if (test(node, context)) return node;
+  }
+  return undefined;
+}
+
+function nodeText(node: TraceNode, labels?: StepLabels): string {
+  const output = labels?.toolOutput;
+  if (output === undefined) return node.content || '';
+  return `${node.content || ''} ${typeof output === 'string' ? output : JSON.stringify(output)}`;
+}
+
+interface Violation {
+  message: string;
+  nodeIds: string[];
+}
+
+function describeWithin(within?: number): string {
+  return within ? ` within ${within} step${within === 1 ? '' : 's'}` : '';
+}
+
+/**
+ * Compiles a validated rule into a check returning the violations for one node.
+ */
+function compileAssertions(rule: ParsedTraceRule): (node: TraceNode, index: number, context: RuleContext) => Violation[] {
+  const assert = rule.assert;
+  if (!assert) {
+    return (node) => [{ message: 'Matched a forbidden step.', nodeIds: [node.id] }];
+  }
+
+  const checks: Array<(node: TraceNode, index: number, context: RuleContext) => Violation | null> = [];
+
+  const sequence = (
+    key: 'precededBy' | 'followedBy' | 'notPrecededBy' | 'notFollowedBy',
+    direction: 1 | -1,
+    required: boolean
+  ) => {
+    const assertion = assert[key];
+    if (!assertion) return;
+    const test = compileSelector(assertion.match);
+    const where = `${direction === -1 ? 'before' : 'after'} it${describeWithin(assertion.within)}`;
+    checks.push((node, index, context) => {
+      const found = findInSequence(context, index, direction, assertion.within, test);
+      if (required && !found) {
+        return { message: `No matching step ${where}.`, nodeIds: [node.id] };
+      }
+      if (!required && found) {
+        return { message: `A disallowed step occurs ${where}.`, nodeIds: [node.id, found.id] };
+      }
+      return null;
+    });
+  };
+
+  sequence('precededBy', -1, true);
+  sequence('followedBy', 1, true);
+  sequence('notPrecededBy', -1, false);
+  sequence('notFollowedBy', 1, false);
+
+  if (assert.parent) {
+    const test = compileSelector(assert.parent);
+    checks.push((node, _index, context) => {
+      const parent = node.parentId ? context.byId.get(node.parentId) : undefined;
+      if (parent && test(parent, context)) return null;
+      return {
+        message: parent ? 'Its parent step does not match the rule.' : 'It has no parent step.',
+        nodeIds: parent ? [node.id, parent.id] : [node.id]
+      };
+    });
+  }
+
+  if (assert.child) {
+    const test = compileSelector(assert.child);
+    checks.push((node, _index, context) => {
+      const hasChild = context.nodes.some(other => other.parentId === node.id && test(other, context));
+      return hasChild ? null : { message: 'None of its child steps match the rule.', nodeIds: [node.id] };
+    });
+  }
+
+  if (assert.numbersFrom) {
+    const test = compileSelector(assert.numbersFrom.match);
+    const ignoreBelow = assert.numbersFrom.ignoreBelow ?? DEFAULT_IGNORE_NUMBERS_BELOW;
+    checks.push((node, index, context) => {
+      const numbers = extractNumbers(node.content || '').filter(value => Math.abs(Number(value)) >= ignoreBelow);
+      if (numbers.length === 0) return null;
+
+      const known = new Set<string>();
+      for (let i = 0; i < index; i++) {
+        const source = context.nodes[i];
+        if (test(source, context)) {
+          extractNumbers(nodeText(source, context.labels.get(source.id))).forEach(value => known.add(value));
+        }
+      }
+
+      const ungrounded = Array.from(new Set(numbers.filter(value => !known.has(value))));
+      if (ungrounded.length === 0) return null;
+      return {
+        message: `${ungrounded.slice(0, 5).join(', ')}${ungrounded.length > 5 ? ', ...' : ''} did not appear in any earlier matching step.`,
+        nodeIds: [node.id]
+      };
+    });
+  }
+
+  return (node, index, context) =>
+    checks.map(check => check(node, index, context)).filter((v): v is Violation => v !== null);
+}
+
+export function ruleIssueType(ruleId: string): string {
+  return `rule:${ruleId}`;
+}
+
+/**
+ * Turns a rule into a detector definition that can run alongside the built-in ones.
+ */
+export function compileTraceRule(input: TraceRule, index = 0): DetectorDefinition {
+  const rule = traceRuleSchema.parse(input);
+  const type = ruleIssueType(rule.id);
+  const matches = compileSelector(rule.match);
+  const check = compileAssertions(rule);
+  const risk: RiskLevel = rule.risk ?? (rule.severity === 'error' ? 'high' : 'medium');
+  const suggestion = rule.suggestion ?? `Review the steps flagged by rule "${rule.id}".`;
+
+  return {
+    type,
+    label: rule.title,
+    suggestion,
+    priority: RULE_PRIORITY_BASE + index,
+    risk,
+    detect: (nodes, labels) => {
+      const byId = new Map(nodes.map(node => [node.id, node]));
+      const context: RuleContext = { nodes, labels, byId, tools: resolveTools(nodes, labels, byId) };
+      const issues: TraceIssue[] = [];
+
+      nodes.forEach((node, nodeIndex) => {
+        if (!matches(node, context)) return;
+        for (const violation of check(node, nodeIndex, context)) {
+          issues.push({
+            id: `${type}-${node.id}-${issues.length}`,
+            type,
+            severity: rule.severity,
+            nodeIds: violation.nodeIds,
+            title: rule.title,
+            description: rule.description ? `${rule.description} ${violation.message}` : violation.message,
+            suggestion
+          });
+        }
+      });
+
+      return issues;
+    }
+  };
+}
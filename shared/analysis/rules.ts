@@ -0,0 +1,209 @@
+/**
+ * Analyzer Rules - Patterns, tool lists and thresholds used by the detectors
+ *
+ * The defaults below are what analyzeTrace uses out of the box. An
+ * AnalyzerConfig adjusts them (extra or removed patterns, commit tools,
+ * thresholds, model prices, disabled detectors, declarative trace rules) and is plain
+ * JSON or YAML, so it can be persisted in the browser or loaded from a file
+ * by the CLI and API.
+ */
+
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { parse as parseYaml } from 'yaml';
+import { IssueType } from '../models';
+import { SLOW_THRESHOLD_MS, HEAVY_TOKEN_THRESHOLD } from '../adapters/generic';
+import { traceRuleSchema, compileTraceRule } from './rule-dsl';
+import { modelPriceSchema, DEFAULT_PRICING, ModelPrice } from './cost';
+import { isValidRegex } from './matching';
+import type { DetectorDefinition } from './trace-analyzer';
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+export const DEFAULT_ERROR_PATTERNS = [
+  /\berror\b/i, /\bfailed\b/i, /\bfailure\b/i, /\bexception\b/i,
+  /\bquota\s*(exceeded|limit)/i, /\btimeout\b/i, /\brefused\b/i,
+  /\bunauthorized\b/i, /\bforbidden\b/i, /\bdenied\b/i,
+  /\bunable\s+to\b/i, /\bcould\s+not\b/i, /\bcannot\b/i,
+  /\b4\d{2}\b/, /\b5\d{2}\b/, // HTTP 4xx/5xx codes
+  /\brate\s*limit/i, /\bapi\s*(key\s*)?(invalid|expired|missing)/i,
+  /\bconnection\s*(refused|reset|timeout)/i,
+  /\bnetwork\s+error/i, /\brequest\s+failed/i
+];
+
+export const DEFAULT_EMPTY_RESULT_PATTERNS = [
+  /^\s*\[\s*\]\s*$/,  // []
+  /^\s*\{\s*\}\s*$/,  // {}
+  /^(null|undefined|none|nil)$/i,
+  /\bno\s+(results?|flights?|data|items?|records?|matches?)\s*(found|returned|available)?/i,
+  /\bempty\s+(response|result|data|list|array|set)/i,
+  /\bnothing\s+(found|returned|available|here)/i,
+  /\b0\s+(results?|items?|records?|matches?)/i,
+  /flights?:\s*\[\s*\]/i,
+  /results?:\s*\[\s*\]/i,
+  /data:\s*\[\s*\]/i,
+  /items?:\s*\[\s*\]/i
+];
+
+export const DEFAULT_COMMIT_TOOLS = [
+  'payment', 'pay', 'charge', 'purchase', 'buy',
+  'book', 'booking', 'reserve', 'reservation',
+  'create', 'insert', 'add', 'post',
+  'update', 'put', 'patch', 'modify', 'edit',
+  'delete', 'remove', 'destroy',
+  'send', 'submit', 'confirm', 'finalize',
+  'write', 'save', 'store',
+  'order', 'checkout', 'complete',
+  'payment_api', 'booking_api', 'order_api',
+  'db_write', 'db_insert', 'db_update', 'db_delete',
+  'stripe', 'paypal', 'square'
+];
+
+export const DEFAULT_SPECULATIVE_PATTERNS = [
+  /\bi('ll)?\s*(just\s+)?(guess|assume|suppose|imagine)/i,
+  /\bprobably\b/i, /\blikely\b/i, /\bmaybe\b/i, /\bperhaps\b/i,
+  /\bi\s+think\b/i, /\bi\s+believe\b/i, /\bi('ll)?\s+estimate/i,
+  /\bbased\s+on\s+(season|time|experience|general)/i,
+  /\bwithout\s+(the\s+)?(data|results?|information)/i,
+  /\bmaking\s+(an?\s+)?assumption/i,
+  /\bguessing\b/i, /\bassuming\b/i,
+  /\blet\s*('s|me)\s+(just\s+)?guess/i,
+  /\bI\s+don't\s+have\s+(the\s+)?(actual|real)/i
+];
+
+export const DEFAULT_LOOP_SIMILARITY = 0.6;
+
+// Text in a tool result that addresses the agent rather than the user
+export const DEFAULT_INJECTION_PATTERNS = [
+  /\b(ignore|disregard|forget|override)\s+(all\s+|any\s+)?(the\s+|your\s+)?(previous|prior|above|earlier|original)\s+(instructions?|prompts?|rules|directions)/i,
+  /\bforget\s+(everything|all)\s+(you\s+were\s+told|above)/i,
+  /\byou\s+are\s+now\s+(a|an|in)\b/i,
+  /\bnew\s+(system\s+)?instructions?\s*:/i,
+  /\b(important|urgent)\s+(message|instructions?)\s+(for|to)\s+(the\s+)?(ai|assistant|agent|model)/i,
+  /<\/?(system|instructions?|im_start|im_end)>|\[\/?INST\]/i,
+  /\bdo\s+not\s+(tell|inform|alert|notify)\s+the\s+user/i,
+  /\b(send|forward|email|upload|post|exfiltrate)\s+(all\s+|the\s+|your\s+|any\s+)?(data|files?|credentials?|passwords?|api\s*keys?|secrets?|tokens?|conversation|emails?)\s+to\b/i,
+  /\breveal\s+(your\s+)?(system\s+prompt|instructions|hidden\s+prompt)/i
+];
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+const patternListSchema = z.array(
+  z.string().min(1).refine(isValidRegex, { message: 'Invalid regular expression' })
+);
+
+const patternOverridesSchema = z.object({
+  add: patternListSchema.optional(),
+  /** Sources of default patterns to drop, e.g. "\\b4\\d{2}\\b" */
+  remove: z.array(z.string()).optional()
+}).strict();
+
+const toolOverridesSchema = z.object({
+  add: z.array(z.string().min(1)).optional(),
+  remove: z.array(z.string()).optional()
+}).strict();
+
+export const analyzerConfigSchema = z.object({
+  errorPatterns: patternOverridesSchema.optional(),
+  emptyResultPatterns: patternOverridesSchema.optional(),
+  speculativePatterns: patternOverridesSchema.optional(),
+  injectionPatterns: patternOverridesSchema.optional(),
+  /** Substrings of tool names (or action content) treated as irreversible commits */
+  commitTools: toolOverridesSchema.optional(),
+  slowThresholdMs: z.number().nonnegative().optional(),
+  heavyTokenThreshold: z.number().nonnegative().optional(),
+  /** "exact": same tool called 3+ times in a row; "similar": that, plus multi-tool cycles of near-duplicate calls */
+  loopDetection: z.enum(['exact', 'similar']).optional(),
+  /** Shingle similarity (0-1) of arguments plus results above which two calls count as a repeat */
+  loopSimilarity: z.number().min(0).max(1).optional(),
+  /** Model prices (USD per million tokens), checked before the built-in table */
+  pricing: z.array(modelPriceSchema).optional(),
+  /** Issue types whose detectors are skipped, built-in or registered */
+  disabledDetectors: z.array(z.string().min(1)).optional(),
+  /** Declarative assertions, see rule-dsl.ts */
+  traceRules: z.array(traceRuleSchema)
+    .refine(rules => new Set(rules.map(rule => rule.id)).size === rules.length, { message: 'Rule ids must be unique' })
+    .optional()
+}).strict();
+
+export type AnalyzerConfig = z.infer<typeof analyzerConfigSchema>;
+export type PatternOverrides = z.infer<typeof patternOverridesSchema>;
+
+/**
+ * Rules after applying an AnalyzerConfig to the defaults.
+ */
+export interface AnalyzerRules {
+  errorPatterns: RegExp[];
+  emptyResultPatterns: RegExp[];
+  speculativePatterns: RegExp[];
+  injectionPatterns: RegExp[];
+  commitTools: string[];
+  slowThresholdMs: number;
+  heavyTokenThreshold: number;
+  loopDetection: 'exact' | 'similar';
+  loopSimilarity: number;
+  pricing: ModelPrice[];
+  disabledDetectors: Set<IssueType>;
+  /** Compiled traceRules */
+  ruleDetectors: DetectorDefinition[];
+}
+
+/**
+ * Validates a parsed config (e.g. from a rules file or request body).
+ */
+export function parseAnalyzerConfig(input: unknown): { config?: AnalyzerConfig; error?: string } {
+  const result = analyzerConfigSchema.safeParse(input ?? {});
+  if (!result.success) {
+    return { error: fromZodError(result.error).toString() };
+  }
+  return { config: result.data };
+}
+
+/**
+ * Parses and validates a config file's contents. YAML is a superset of JSON,
+ * so both formats go through the YAML parser.
+ */
+export function parseAnalyzerConfigText(text: string): { config?: AnalyzerConfig; error?: string } {
+  let input: unknown;
+  try {
+    input = parseYaml(text);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+  return parseAnalyzerConfig(input);
+}
+
+function applyPatternOverrides(defaults: RegExp[], overrides?: PatternOverrides): RegExp[] {
+  if (!overrides) return defaults;
+  const removed = new Set(overrides.remove || []);
+  const added = (overrides.add || [])
+    .filter(source => !removed.has(source) && isValidRegex(source))
+    .map(source => new RegExp(source, 'i'));
+  return [...defaults.filter(pattern => !removed.has(pattern.source)), ...added];
+}
+
+export function resolveRules(config: AnalyzerConfig = {}): AnalyzerRules {
+  const removedTools = new Set((config.commitTools?.remove || []).map(tool => tool.toLowerCase()));
+  const addedTools = (config.commitTools?.add || []).map(tool => tool.toLowerCase());
+
+  return {
+    errorPatterns: applyPatternOverrides(DEFAULT_ERROR_PATTERNS, config.errorPatterns),
+    emptyResultPatterns: applyPatternOverrides(DEFAULT_EMPTY_RESULT_PATTERNS, config.emptyResultPatterns),
+    speculativePatterns: applyPatternOverrides(DEFAULT_SPECULATIVE_PATTERNS, config.speculativePatterns),
+    injectionPatterns: applyPatternOverrides(DEFAULT_INJECTION_PATTERNS, config.injectionPatterns),
+    commitTools: Array.from(new Set([...DEFAULT_COMMIT_TOOLS, ...addedTools])).filter(tool => !removedTools.has(tool)),
+    slowThresholdMs: config.slowThresholdMs ?? SLOW_THRESHOLD_MS,
+    heavyTokenThreshold: config.heavyTokenThreshold ?? HEAVY_TOKEN_THRESHOLD,
+    loopDetection: config.loopDetection ?? 'similar',
+    loopSimilarity: config.loopSimilarity ?? DEFAULT_LOOP_SIMILARITY,
+    pricing: [...(config.pricing || []), ...DEFAULT_PRICING],
+    disabledDetectors: new Set(config.disabledDetectors || []),
+    ruleDetectors: (config.traceRules || []).map((rule, index) => compileTraceRule(rule, index))
+  };
+}
+
+export const DEFAULT_RULES = resolveRules();
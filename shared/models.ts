@@ -1,6 +1,6 @@
 export type NodeType = 'thought' | 'action' | 'observation' | 'output' | 'system' | 'other';
 
-export type IssueType = 
+export type BuiltInIssueType =
   | 'loop'
   | 'missing_observation'
   | 'suspicious_transition'
@@ -9,10 +9,31 @@ export type IssueType =
   | 'empty_result'
   | 'guessing_after_error'
   | 'commit_after_empty'
-  | 'unhandled_error';
+  | 'hallucinated_argument'
+  | 'prompt_injection'
+  | 'unhandled_error'
+  | 'unsupported_claim'
+  | 'sensitive_data';
+
+/**
+ * A built-in issue type, or the type of a detector added with registerDetector.
+ */
+export type IssueType = BuiltInIssueType | (string & {});
 
 export type RiskLevel = 'low' | 'medium' | 'high';
 
+/**
+ * One flagged span of a node, e.g. a number in the final output that no
+ * observation supports.
+ */
+export interface IssueEvidence {
+  nodeId: string;
+  /** Sentence the claim was found in */
+  sentence: string;
+  claim: string;
+  kind: 'number' | 'name' | 'quote' | 'url';
+}
+
 export interface TraceIssue {
   id: string;
   type: IssueType;
@@ -21,11 +42,17 @@ export interface TraceIssue {
   title: string;
   description: string;
   suggestion: string;
+  evidence?: IssueEvidence[];
 }
 
 export interface TokenUsage {
+  /** Uncached prompt tokens */
   prompt?: number;
   completion?: number;
+  /** Prompt tokens served from the provider's prompt cache */
+  cacheRead?: number;
+  /** Prompt tokens written to the prompt cache */
+  cacheWrite?: number;
   total?: number;
 }
 
@@ -39,6 +66,18 @@ export interface NodeMetrics {
   errorMessage?: string;
   isSlow?: boolean;
   isTokenHeavy?: boolean;
+  /** Estimated from tokenUsage and the analyzer's pricing table */
+  costUsd?: number;
+}
+
+export interface CostSummary {
+  totalUsd: number;
+  /** Nodes whose token usage could be priced */
+  pricedNodes: number;
+  /** Spend grouped by the tool each step served, most expensive first */
+  byTool: Array<{ tool: string; costUsd: number; nodeCount: number }>;
+  /** Models with token usage but no pricing entry */
+  unpricedModels: string[];
 }
 
 export interface TraceNode {
@@ -72,6 +111,7 @@ export interface TraceStats {
   totalActions: number;
   totalErrors: number;
   issuesByType: Record<IssueType, number>;
+  cost?: CostSummary;
 }
 
 export interface TraceRun {
@@ -111,6 +151,24 @@ export interface ParseResult {
   warnings?: string[];
   detectedFormat?: string;
   arrayPath?: string;
+  adapterId?: string;
+}
+
+/**
+ * One run out of a log that interleaves several. `raw` is a
+ * { run_id, steps } payload that parses back to `trace` on its own.
+ */
+export interface SplitRun {
+  runKey: string;
+  raw: any;
+  trace: TraceRun;
+}
+
+export interface RunSplit {
+  /** Step field the runs were grouped by, e.g. "thread_id" */
+  field: string;
+  runs: SplitRun[];
+  warnings?: string[];
 }
 
 export const KNOWN_STEP_ARRAY_KEYS = [
@@ -131,3 +189,56 @@ export const KNOWN_STEP_ARRAY_KEYS = [
   'logs',
   'entries'
 ] as const;
+
+export interface StoredTrace {
+  id: string;
+  raw: any;
+  trace: TraceRun;
+  createdAt: number;
+}
+
+export type InsertStoredTrace = Omit<StoredTrace, 'id' | 'createdAt'>;
+
+export type StoredTraceResponse = Omit<StoredTrace, 'raw'>;
+
+export interface TraceSummary {
+  id: string;
+  traceId: string;
+  source?: string;
+  nodeCount: number;
+  riskLevel?: RiskLevel;
+  issueCount: number;
+  createdAt: number;
+}
+
+export type LiveRunStatus = 'open' | 'finished';
+
+export interface LiveRunState {
+  runId: string;
+  status: LiveRunStatus;
+  trace: TraceRun;
+  createdAt: number;
+  updatedAt: number;
+  finishedAt?: number;
+  finishReason?: 'explicit' | 'timeout';
+  storedId?: string;
+  warnings?: string[];
+}
+
+export interface LiveRunSummary {
+  runId: string;
+  status: LiveRunStatus;
+  nodeCount: number;
+  createdAt: number;
+  updatedAt: number;
+  storedId?: string;
+}
+
+/**
+ * Messages streamed from GET /api/runs/:runId/events.
+ * Nodes are sent as parsed by the adapter; clients run analyzeTrace themselves.
+ */
+export type LiveRunEvent =
+  | { type: 'snapshot'; runId: string; status: LiveRunStatus; nodes: TraceNode[]; storedId?: string }
+  | { type: 'steps'; runId: string; nodes: TraceNode[] }
+  | { type: 'finished'; runId: string; storedId: string; finishReason: 'explicit' | 'timeout' };
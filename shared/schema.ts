@@ -1,7 +1,28 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  text,
+  varchar,
+  integer,
+  bigint,
+  real,
+  jsonb,
+  timestamp,
+  primaryKey,
+  index,
+} from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { analyzerConfigSchema } from "./analysis/rules";
+import type {
+  NodeType,
+  IssueType,
+  IssueEvidence,
+  RiskLevel,
+  TraceStats,
+  LangGraphDetails,
+  NodeMetrics,
+} from "./models";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -16,3 +37,109 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+// Trace persistence mirrors TraceRun / TraceNode / TraceIssue from ./models.
+// Nodes and issues are keyed by their position within the run, since ids
+// coming from user traces are not guaranteed to be unique.
+
+export const traceRuns = pgTable("trace_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  traceId: text("trace_id").notNull(),
+  source: text("source"),
+  raw: jsonb("raw").notNull(),
+  riskLevel: text("risk_level").$type<RiskLevel>(),
+  riskExplanation: text("risk_explanation"),
+  issueSummary: jsonb("issue_summary").$type<Record<IssueType, number>>(),
+  stats: jsonb("stats").$type<TraceStats>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const traceNodes = pgTable(
+  "trace_nodes",
+  {
+    runId: varchar("run_id")
+      .notNull()
+      .references(() => traceRuns.id, { onDelete: "cascade" }),
+    position: integer("position").notNull(),
+    id: text("id").notNull(),
+    type: text("type").$type<NodeType>().notNull(),
+    content: text("content").notNull(),
+    timestamp: bigint("timestamp", { mode: "number" }),
+    confidence: real("confidence"),
+    parentId: text("parent_id"),
+    order: integer("order"),
+    metadata: jsonb("metadata"),
+    riskLevel: text("risk_level").$type<RiskLevel>(),
+    langGraphDetails: jsonb("lang_graph_details").$type<LangGraphDetails>(),
+    metrics: jsonb("metrics").$type<NodeMetrics>(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.runId, table.position] }),
+    index("trace_nodes_run_id_idx").on(table.runId),
+  ],
+);
+
+export const traceIssues = pgTable(
+  "trace_issues",
+  {
+    runId: varchar("run_id")
+      .notNull()
+      .references(() => traceRuns.id, { onDelete: "cascade" }),
+    position: integer("position").notNull(),
+    id: text("id").notNull(),
+    type: text("type").$type<IssueType>().notNull(),
+    severity: text("severity").$type<"warning" | "error">().notNull(),
+    nodeIds: jsonb("node_ids").$type<string[]>().notNull(),
+    title: text("title").notNull(),
+    description: text("description").notNull(),
+    suggestion: text("suggestion").notNull(),
+    evidence: jsonb("evidence").$type<IssueEvidence[]>(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.runId, table.position] }),
+    index("trace_issues_run_id_idx").on(table.runId),
+  ],
+);
+
+export type TraceRunRow = typeof traceRuns.$inferSelect;
+export type InsertTraceRunRow = typeof traceRuns.$inferInsert;
+export type TraceNodeRow = typeof traceNodes.$inferSelect;
+export type InsertTraceNodeRow = typeof traceNodes.$inferInsert;
+export type TraceIssueRow = typeof traceIssues.$inferSelect;
+export type InsertTraceIssueRow = typeof traceIssues.$inferInsert;
+
+export const fieldMappingSchema = z.object({
+  stepsPath: z.string().optional(),
+  idField: z.string().optional(),
+  parentIdField: z.string().optional(),
+  typeField: z.string().optional(),
+  contentField: z.string().optional(),
+  timestampField: z.string().optional(),
+});
+
+export const createTraceSchema = z.object({
+  raw: z.any().refine((value) => value !== undefined && value !== null, {
+    message: "raw trace payload is required",
+  }),
+  mapping: fieldMappingSchema.optional(),
+  // Adapter id from the registry; detected from the payload when omitted
+  adapter: z.string().optional(),
+  // Analyzer rule overrides; the server defaults are used when omitted
+  rules: analyzerConfigSchema.optional(),
+  // Replace secrets and personal data with placeholders before parsing and storage
+  redact: z.boolean().optional(),
+});
+
+export type CreateTraceRequest = z.infer<typeof createTraceSchema>;
+
+// Live ingestion accepts a single step, an array of steps, or { steps, mapping }
+export const appendStepsSchema = z.union([
+  z.object({
+    steps: z.array(z.any()).min(1),
+    mapping: fieldMappingSchema.optional(),
+  }),
+  z.array(z.any()).min(1),
+  z.record(z.any()),
+]);
+
+export type AppendStepsRequest = z.infer<typeof appendStepsSchema>;